@@ -1,13 +1,26 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Play, Square, FileText, Music, Info, Download, Code, Video, Grid3X3, Settings, Share2, Star, Edit3, Headphones, Plus, Menu, X, Box, ChevronDown, Minus, ChevronsLeft, Activity, Save, FolderOpen, Palette, FileDown, Pause, SkipBack, Trash2, Clock, Ban, RotateCcw, Edit, Timer, Gauge, Undo2, ArrowDownToLine, MousePointerClick, MessageSquarePlus, Wand2, Hand, Zap, MoveRight, BookOpen, Mic, MicOff, Film, FileType, CheckCircle2, MousePointer, ThumbsUp, Copy, Clipboard, Repeat, LayoutGrid, Lock, User, UserCheck, Users, Shield, ShieldAlert, KeyRound, Loader2, PenLine, Mail, Bug, HelpCircle, Send, MousePointer2, Smartphone, Piano, ExternalLink, ChevronUp, LifeBuoy } from 'lucide-react';
-import { PRESETS, NOTE_COLORS, SCALES_PRESETS, ASSETS_BASE_URL, STRING_CONFIGS, BASE_TUNING, ALL_CHROMATIC_NOTES, AVAILABLE_SAMPLES, HEADER_SILENCE } from './constants';
+import { Play, Square, FileText, Music, Info, Download, Code, Video, Grid3X3, Settings, Share2, Star, Edit3, Headphones, Plus, Menu, X, Box, ChevronDown, Minus, ChevronsLeft, Activity, Save, FolderOpen, Palette, FileDown, Pause, SkipBack, Trash2, Clock, Ban, RotateCcw, Edit, Timer, Gauge, Undo2, ArrowDownToLine, MousePointerClick, MessageSquarePlus, Wand2, Hand, Zap, MoveRight, BookOpen, Mic, MicOff, Film, FileType, CheckCircle2, MousePointer, ThumbsUp, Copy, Clipboard, Repeat, LayoutGrid, Lock, User, UserCheck, Users, Shield, ShieldAlert, KeyRound, Loader2, PenLine, Mail, Bug, HelpCircle, Send, MousePointer2, Smartphone, Piano, ExternalLink, ChevronUp, LifeBuoy, AlertTriangle, Circle, FileAudio, Keyboard } from 'lucide-react';
+import { PRESETS, NOTE_COLORS, SCALES_PRESETS, ASSETS_BASE_URL, STRING_CONFIGS, BASE_TUNING, ALL_CHROMATIC_NOTES, HEADER_SILENCE, GROOVE_TEMPLATES, DEFAULT_GROOVE, DEFAULT_SYNTH_PARAMS, SAMPLE_PACKS, DEFAULT_SAMPLE_PACK, DEFAULT_TEMPO_RAMP, METRONOME_VOICES, DEFAULT_METRONOME, RECORD_GRIDS, MIC_MIN_CONFIDENCE, MIDI_PROFILE_PRESETS, DEFAULT_KEYBOARD_LAYOUT, KEYBOARD_ADVANCES } from './constants';
 import { parseTablature } from './utils/parser';
 import { audioEngine } from './utils/audio';
 import { generatePDF } from './utils/pdf';
+import { generateMusicXML } from './utils/musicxml';
+import { importMidiFile } from './utils/midi';
+import { saveRecording, deleteRecordings } from './utils/samples';
+import { createDefaultMixer } from './utils/mixer';
+import { buildMeasureMap, meterFromRhythmMode } from './utils/meter';
+import { accentPattern, meterKey } from './utils/metronome';
+import { quantizeTake, applyTake, quantizeToGrid } from './utils/recording';
+import { detectNotesInWorker, detectionsToHits, anchorTick, transcribeInWorker, beatGridTick } from './utils/transcription';
+import { resolveMidiMessage, messageChannel, learnNote, learnControl, mergeMidiProfiles, isPresetProfile } from './utils/midiMapping';
+import { assignKey, isAssignableKey, keyLabel } from './utils/keyboard';
 import Visualizer, { VisualizerHandle } from './components/Visualizer';
 import StringPad from './components/StringPad';
-import { Tuning, ParsedNote, TICKS_QUARTER, PlaybackState, SongPreset, TICKS_COUNT_IN } from './types';
+import Mixer from './components/Mixer';
+import MidiMapping from './components/MidiMapping';
+import KeyboardMapping from './components/KeyboardMapping';
+import { Tuning, ParsedNote, ParseDiagnostic, RenderOptions, Groove, InstrumentVoice, SynthParams, SampleLoadStatus, SamplePack, MixerState, LoopRegion, TempoRamp, MetronomeSettings, AccentLevel, MeterSegment, RecordedHit, RecordGrid, TakeMode, MidiAction, MidiMappingProfile, MidiLearnTarget, KeyboardLayout, KeyboardAdvance, TICKS_QUARTER, PlaybackState, SongPreset, TICKS_COUNT_IN } from './types';
 
 // --- CONFIGURATION DES LICENCES ---
 // Liste des codes d'accès valides (Licences)
@@ -83,8 +96,8 @@ const StringSelector: React.FC<StringSelectorProps> = ({ stringId, currentNote,
   if (baseIndex !== -1) {
       const minIndex = Math.max(0, baseIndex - 3);
       const maxIndex = Math.min(ALL_CHROMATIC_NOTES.length - 1, baseIndex + 2);
+      // Toutes les notes sont jouables : les notes sans sample sont transposées (audioEngine)
       availableOptions = ALL_CHROMATIC_NOTES.slice(minIndex, maxIndex + 1);
-      availableOptions = availableOptions.filter(note => AVAILABLE_SAMPLES.includes(note));
   } else {
       availableOptions = [currentNote];
   }
@@ -313,7 +326,27 @@ export default function App() {
   const [bpm, setBpm] = useState(100);
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0); 
   const [isMetronomeOn, setIsMetronomeOn] = useState(false);
+  const [metronome, setMetronome] = useState<MetronomeSettings>(DEFAULT_METRONOME); // Préférence de l'utilisateur (pas du projet)
+  const [pdfWithToc, setPdfWithToc] = useState(false);
   const [rhythmMode, setRhythmMode] = useState<'binary' | 'ternary'>('binary'); 
+  const [groove, setGroove] = useState<Groove>(DEFAULT_GROOVE);
+  const [instrumentVoice, setInstrumentVoice] = useState<InstrumentVoice>('samples');
+  const [synthParams, setSynthParams] = useState<SynthParams>(DEFAULT_SYNTH_PARAMS);
+  const [sampleStatus, setSampleStatus] = useState<SampleLoadStatus>({ loading: false, loaded: 0, total: 0, missing: [] });
+  const [customSamplePacks, setCustomSamplePacks] = useState<SamplePack[]>([]);
+  const [samplePackId, setSamplePackId] = useState<string>(DEFAULT_SAMPLE_PACK.id);
+  const [newSamplePackName, setNewSamplePackName] = useState('');
+  const [mixer, setMixer] = useState<MixerState>(createDefaultMixer);
+  // Boucle d'entraînement (Maj + glisser sur la partition) et accélération progressive
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  // Transcription d'un enregistrement : analyse en cours, confiance par "tick-corde" affichée sur la partition
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionConfidence, setTranscriptionConfidence] = useState<Record<string, number> | null>(null);
+  const confidenceCodeRef = useRef<string | null>(null); // Code transcrit auquel la confiance se rapporte
+  const [tempoRamp, setTempoRamp] = useState<TempoRamp>(DEFAULT_TEMPO_RAMP);
+  const [isTempoRampOn, setIsTempoRampOn] = useState(false);
+  const [loopRepetition, setLoopRepetition] = useState(0);
+  const samplePack = [...SAMPLE_PACKS, ...customSamplePacks].find(p => p.id === samplePackId) || DEFAULT_SAMPLE_PACK;
   const [fingeringMode, setFingeringMode] = useState<'auto' | 'manual'>('auto');
   const [playbackState, setPlaybackState] = useState<PlaybackState>(PlaybackState.STOPPED);
   const [playingSource, setPlayingSource] = useState<'editor' | 'scale'>('editor'); 
@@ -328,9 +361,11 @@ export default function App() {
   // Feedback State for StringPad
   const [playbackFeedback, setPlaybackFeedback] = useState<Record<string, number>>({});
   const playbackIndexRef = useRef(0);
+  const lastFeedbackTickRef = useRef(0);
 
   // Export Settings
   const [exportPlaybackSpeed, setExportPlaybackSpeed] = useState(1.0);
+  const [exportRenderOptions, setExportRenderOptions] = useState<RenderOptions>({ includeMetronome: false, countIn: false, tailSeconds: 3 });
 
   // Voice Input State
   const [isListening, setIsListening] = useState(false);
@@ -345,6 +380,30 @@ export default function App() {
 
   // MIDI Input State
   const [isMidiEnabled, setIsMidiEnabled] = useState(false);
+  // Prise MIDI en temps réel (sinon chaque touche est une saisie pas à pas)
+  const [isTakeRecording, setIsTakeRecording] = useState(false);
+  const [recordGrid, setRecordGrid] = useState<RecordGrid>('sixteenth');
+  const [takeMode, setTakeMode] = useState<TakeMode>('merge');
+  const [isMicTake, setIsMicTake] = useState(false);
+  const takeRef = useRef<{ source: 'midi' | 'mic'; hits: RecordedHit[]; startTick: number; endTick: number; restoreMetronome: boolean } | null>(null);
+  // Profils de correspondance MIDI (notes -> cordes, CC -> actions), enregistrés dans localStorage
+  const [midiProfiles, setMidiProfiles] = useState<MidiMappingProfile[]>(MIDI_PROFILE_PRESETS);
+  const [midiProfileId, setMidiProfileId] = useState<string>(MIDI_PROFILE_PRESETS[0].id);
+  const [midiLearnTarget, setMidiLearnTarget] = useState<MidiLearnTarget | null>(null);
+  // Clavier d'ordinateur : mode jeu, disposition (touche -> corde), avance après chaque note ou accord
+  const [isKeyboardPlay, setIsKeyboardPlay] = useState(false);
+  const [keyboardLayout, setKeyboardLayout] = useState<KeyboardLayout>(DEFAULT_KEYBOARD_LAYOUT);
+  const [keyboardAdvance, setKeyboardAdvance] = useState<KeyboardAdvance>('♪');
+  const [keyboardLearnString, setKeyboardLearnString] = useState<string | null>(null);
+  const [keyboardLayoutMap, setKeyboardLayoutMap] = useState<Map<string, string> | null>(null);
+  const heldKeysRef = useRef<Set<string>>(new Set()); // Touches de corde enfoncées (accord en cours)
+  const keyboardHandlersRef = useRef<{ down: (e: KeyboardEvent) => void; up: (e: KeyboardEvent) => void } | null>(null);
+  const midiProfile = midiProfiles.find(p => p.id === midiProfileId) || midiProfiles[0];
+  // Lus par le gestionnaire MIDI (branché une fois), mis à jour à chaque rendu
+  const midiProfileRef = useRef(midiProfile);
+  const midiLearnTargetRef = useRef<MidiLearnTarget | null>(null);
+  const midiHandlersRef = useRef<{ learn: (data: number[]) => void; action: (action: MidiAction) => void } | null>(null);
+  const midiControlValuesRef = useRef<Record<string, number>>({}); // Dernière valeur de chaque CC (front montant)
   
   // IFRAME DETECTION
   const [isInIframe, setIsInIframe] = useState(false);
@@ -369,6 +428,7 @@ export default function App() {
   const [saveName, setSaveName] = useState("");
   const [userPresets, setUserPresets] = useState<SongPreset[]>([]);
   const [newProjectModalOpen, setNewProjectModalOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
 
   // Selection & Clipboard & Blocks
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
@@ -392,6 +452,8 @@ export default function App() {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
   const loadProjectInputRef = useRef<HTMLInputElement>(null);
+  const midiImportInputRef = useRef<HTMLInputElement>(null);
+  const audioImportInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => { 
       currentTickRef.current = currentTick; 
@@ -401,8 +463,36 @@ export default function App() {
   }, [currentTick]);
   
   useEffect(() => { audioEngine.setMetronome(isMetronomeOn); }, [isMetronomeOn]);
+  useEffect(() => { audioEngine.setMetronomeSettings(metronome); }, [metronome]);
   useEffect(() => { audioEngine.setRhythmMode(rhythmMode); }, [rhythmMode]);
+  useEffect(() => { audioEngine.setGroove(groove); }, [groove]);
+  useEffect(() => { audioEngine.setVoice(instrumentVoice); }, [instrumentVoice]);
+  useEffect(() => { audioEngine.setSynthParams(synthParams); }, [synthParams]);
+  useEffect(() => { audioEngine.setMixer(mixer); }, [mixer]);
+  useEffect(() => { audioEngine.setLoop(loopRegion); setLoopRepetition(0); }, [loopRegion]);
+  useEffect(() => { audioEngine.setTempoRamp(isTempoRampOn ? tempoRamp : null); }, [isTempoRampOn, tempoRamp]);
+  // Chaque tour de boucle entendu : compteur et vitesse atteinte par l'accélération
+  useEffect(() => {
+      audioEngine.setOnLoopPass((repetition, speed) => {
+          setLoopRepetition(repetition);
+          setPlaybackSpeed(speed);
+      });
+  }, []);
+  // Charge (et met en cache) les samples dès l'ouverture, pour jouer ensuite hors connexion.
+  // Le pack choisi est rechargé à chaque changement (nouvel enregistrement compris),
+  // mais pas quand seul son volume bouge.
+  useEffect(() => {
+      audioEngine.setOnSampleStatus(setSampleStatus);
+      audioEngine.init();
+  }, []);
+  useEffect(() => {
+      audioEngine.setSamplePack(samplePack);
+      audioEngine.loadSamples();
+  }, [samplePack.id, samplePack.samples]);
+  useEffect(() => { audioEngine.setSamplePackGain(samplePack.gain ?? 1); }, [samplePack.gain]);
   useEffect(() => { currentTuningRef.current = currentTuning; }, [currentTuning]);
+  const fingeringModeRef = useRef(fingeringMode);
+  useEffect(() => { fingeringModeRef.current = fingeringMode; }, [fingeringMode]);
 
   useEffect(() => {
     // Detect iframe and URL capability
@@ -458,6 +548,31 @@ export default function App() {
     const saved = localStorage.getItem('ngonilele_user_presets');
     if (saved) { try { setUserPresets(JSON.parse(saved)); } catch (e) { console.error("Failed to load user presets", e); } }
     
+    const savedMetronome = localStorage.getItem('ngonilele_metronome');
+    if (savedMetronome) { try { setMetronome({ ...DEFAULT_METRONOME, ...JSON.parse(savedMetronome) }); } catch (e) { console.error("Failed to load metronome settings", e); } }
+
+    const savedMidiProfiles = localStorage.getItem('ngonilele_midi_profiles');
+    if (savedMidiProfiles) {
+        try {
+            const profiles = mergeMidiProfiles(JSON.parse(savedMidiProfiles));
+            const selectedId = localStorage.getItem('ngonilele_midi_profile');
+            setMidiProfiles(profiles);
+            setMidiProfileId(profiles.some(p => p.id === selectedId) ? selectedId! : profiles[0].id);
+        } catch (e) { console.error("Failed to load MIDI profiles", e); }
+    }
+
+    const savedKeyboard = localStorage.getItem('ngonilele_keyboard');
+    if (savedKeyboard) {
+        try {
+            const keyboard = JSON.parse(savedKeyboard);
+            if (keyboard.layout) setKeyboardLayout(keyboard.layout);
+            if (KEYBOARD_ADVANCES.some(a => a.symbol === keyboard.advance)) setKeyboardAdvance(keyboard.advance);
+        } catch (e) { console.error("Failed to load keyboard layout", e); }
+    }
+
+    const savedPacks = localStorage.getItem('ngonilele_sample_packs');
+    if (savedPacks) { try { setCustomSamplePacks(JSON.parse(savedPacks)); } catch (e) { console.error("Failed to load sample packs", e); } }
+
     const savedBlks = localStorage.getItem('ngonilele_saved_blocks');
     if (savedBlks) { 
         try { 
@@ -489,7 +604,9 @@ export default function App() {
     };
   }, []);
 
-  const parsedData = useMemo(() => parseTablature(code), [code]);
+  const parseResult = useMemo(() => parseTablature(code), [code]);
+  const parsedData = parseResult.notes;
+  const codeDiagnostics = parseResult.diagnostics;
 
   const scaleData = useMemo(() => {
     const notes = Object.entries(currentTuning).map(([stringId, note]) => ({ stringId, note: note as string }));
@@ -517,6 +634,13 @@ export default function App() {
   useEffect(() => {
       if (playbackState !== PlaybackState.PLAYING) return;
 
+      // Reprise : le curseur revient en arrière, on repart de la bonne note
+      if (currentTick < lastFeedbackTickRef.current) {
+          const newIndex = parsedData.findIndex(n => n.tick >= currentTick);
+          playbackIndexRef.current = newIndex !== -1 ? newIndex : parsedData.length;
+      }
+      lastFeedbackTickRef.current = currentTick;
+
       let localFeedbackUpdate = { ...playbackFeedback };
       let didUpdate = false;
       
@@ -609,7 +733,7 @@ export default function App() {
     }
   }, [playbackState, activeData, bpm, playbackSpeed, isExporting]); 
   
-  const handleNoteAdd = (stringId: string, finger?: string, tick?: number, advanceTicks: number = 0) => {
+  const handleNoteAdd = (stringId: string, finger?: string, tick?: number, advanceTicks: number = 0, dynamicMark?: string, preview: boolean = true) => {
       // Use explicit tick (voice/background click) OR fallback to current cursor (StringPad/MIDI)
       // We use cursorTickRef here to support rapid clicking on StringPad without waiting for React state updates.
       let insertionTick = tick !== undefined ? tick : cursorTickRef.current;
@@ -619,7 +743,7 @@ export default function App() {
           return; // Silently block or maybe vibrate/alert?
       }
 
-      const newNote: ParsedNote = { id: 'temp-new', tick: insertionTick, duration: 0, stringId: stringId, doigt: finger, lineIndex: -1 };
+      const newNote: ParsedNote = { id: 'temp-new', tick: insertionTick, duration: 0, stringId: stringId, doigt: finger, dynamicMark, lineIndex: -1 };
       const allNotes = [...parsedData, newNote];
       regenerateCodeFromAbsolutePositions(allNotes);
       
@@ -640,8 +764,8 @@ export default function App() {
            }
       }
       
-      // PLAY NOTE SOUND FOR FEEDBACK
-      audioEngine.previewString(stringId);
+      // PLAY NOTE SOUND FOR FEEDBACK (le clavier d'ordinateur l'a déjà joué à l'appui)
+      if (preview) audioEngine.previewString(stringId);
   };
   
   // Ref for handleNoteAdd to be used in MIDI effect without dependency cycles
@@ -661,32 +785,34 @@ export default function App() {
       let midiAccess: any = null;
 
       const onMIDIMessage = (event: any) => {
-          const [status, note, velocity] = event.data;
-          // Note On (channel 1-16): 0x90 to 0x9F. velocity > 0.
-          // Note Off can be 0x80 or Note On with velocity 0.
-          const command = status & 0xF0;
-          if (command === 0x90 && velocity > 0) {
-              const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-              const octave = Math.floor((note - 12) / 12);
-              const noteName = noteNames[note % 12];
-              const scientificPitch = `${noteName}${octave}`;
-              
-              console.log(`MIDI Input: ${scientificPitch}`);
+          const data: number[] = Array.from(event.data);
+          // Apprentissage en cours : le message sert à régler le profil, il ne joue rien
+          if (midiLearnTargetRef.current) {
+              midiHandlersRef.current?.learn(data);
+              return;
+          }
 
-              // Find string in current tuning (using ref to avoid stale state/dep loops)
-              const tuning = currentTuningRef.current;
-              const entry = Object.entries(tuning).find(([key, val]) => val === scientificPitch);
-              
-              if (entry) {
-                  const stringId = entry[0];
-                  // Add note via ref
-                  handleNoteAddRef.current(stringId, 'P', undefined, 12);
-                  
-                  // Visual Feedback
-                  setActiveVoiceStringId(stringId);
-                  setTimeout(() => setActiveVoiceStringId(null), 400);
-              }
+          // Profil et accordage via refs (gestionnaire branché une seule fois)
+          const input = resolveMidiMessage(midiProfileRef.current, data, currentTuningRef.current, midiControlValuesRef.current);
+          if (!input) return;
+          if (input.type === 'unmapped') { console.log(`MIDI Input: note ${input.note} sans corde`); return; }
+          if (input.type === 'action') { midiHandlersRef.current?.action(input.action); return; }
+
+          const { stringId, dynamicMark } = input;
+          // Doigté comme les autres saisies : 4, 5, 6 = Index en mode auto, aucun en mode manuel
+          const finger = fingeringModeRef.current === 'auto' ? (['4D','5D','6D','4G','5G','6G'].includes(stringId) ? 'I' : 'P') : undefined;
+          if (takeRef.current?.source === 'midi' && audioEngine.isAudioPlaying) {
+              // Prise en cours : horodatage sur l'horloge du moteur, quantifié à la fin de la prise
+              takeRef.current.hits.push({ tick: audioEngine.getTickAt(event.timeStamp), time: event.timeStamp, stringId, finger, dynamicMark });
+              audioEngine.previewString(stringId);
+          } else {
+              // Add note via ref
+              handleNoteAddRef.current(stringId, finger, undefined, 12, dynamicMark);
           }
+
+          // Visual Feedback
+          setActiveVoiceStringId(stringId);
+          setTimeout(() => setActiveVoiceStringId(null), 400);
       };
 
       const setupMidi = async () => {
@@ -727,6 +853,185 @@ export default function App() {
       };
   }, [isMidiEnabled]);
 
+  // --- PRISE EN TEMPS RÉEL (MIDI OU MICRO) ---
+  // La lecture part du curseur (avec le décompte du moteur), le métronome est forcé pendant la prise
+  const startTake = async (source: 'midi' | 'mic' = 'midi') => {
+      if (playbackState !== PlaybackState.STOPPED) return;
+      if (source === 'mic') {
+          try {
+              await audioEngine.startMicCapture();
+          } catch (e) {
+              console.error(e);
+              alert("Micro inaccessible (permission refusée ou aucun micro détecté).");
+              return;
+          }
+      }
+      takeRef.current = { source, hits: [], startTick: Infinity, endTick: -Infinity, restoreMetronome: !isMetronomeOn };
+      setIsMetronomeOn(true);
+      setIsMicTake(source === 'mic');
+      setIsTakeRecording(true);
+      setPlayingSource('editor');
+      setCurrentTick(Math.max(TICKS_COUNT_IN, currentTick));
+      setPlaybackState(PlaybackState.PLAYING);
+  };
+
+  // Fin de prise (arrêt, pause ou fin du morceau) : quantification puis fusion ou remplacement.
+  // Au micro, les notes sont d'abord détectées dans le signal capturé puis placées via les repères de tick.
+  const finishTake = async () => {
+      const take = takeRef.current;
+      takeRef.current = null;
+      setIsTakeRecording(false);
+      setIsMicTake(false);
+      if (!take) return;
+      if (take.restoreMetronome) setIsMetronomeOn(false);
+      const capture = take.source === 'mic' ? audioEngine.stopMicCapture() : null;
+      // Prise au micro : reconnaissance dans le worker de transcription (une longue prise prend du temps)
+      if (capture) {
+          setIsTranscribing(true);
+          try {
+              const detected = await detectNotesInWorker(capture.samples, capture.sampleRate, currentTuning, MIC_MIN_CONFIDENCE);
+              take.hits.push(...detectionsToHits(detected, time => anchorTick(capture.anchors, time)));
+          } catch (err) {
+              console.error(err);
+              alert(`Erreur d'analyse de la prise au micro : ${err instanceof Error ? err.message : err}`);
+              return;
+          } finally {
+              setIsTranscribing(false);
+          }
+      }
+      const notes = quantizeTake(take.hits, recordGrid);
+      if (notes.length === 0) return;
+      const range = {
+          startTick: Math.min(take.startTick, ...notes.map(n => n.tick)),
+          endTick: Math.max(take.endTick, ...notes.map(n => n.tick))
+      };
+      regenerateCodeFromAbsolutePositions(applyTake(parsedData, notes, takeMode, range));
+  };
+
+  // Plage réellement jouée pendant la prise (boucle comprise), pour le mode remplacement
+  useEffect(() => {
+      if (!takeRef.current || playbackState !== PlaybackState.PLAYING) return;
+      takeRef.current.startTick = Math.min(takeRef.current.startTick, currentTick);
+      takeRef.current.endTick = Math.max(takeRef.current.endTick, currentTick);
+  }, [currentTick, playbackState]);
+
+  useEffect(() => {
+      if (playbackState !== PlaybackState.PLAYING && takeRef.current) finishTake();
+  }, [playbackState]);
+
+  // --- CORRESPONDANCE MIDI (profils, apprentissage, actions) ---
+  const saveMidiProfiles = (profiles: MidiMappingProfile[], selectedId: string = midiProfileId) => {
+      setMidiProfiles(profiles);
+      setMidiProfileId(selectedId);
+      localStorage.setItem('ngonilele_midi_profiles', JSON.stringify(profiles));
+      localStorage.setItem('ngonilele_midi_profile', selectedId);
+  };
+
+  const updateMidiProfile = (profile: MidiMappingProfile) =>
+      saveMidiProfiles(midiProfiles.map(p => p.id === profile.id ? profile : p));
+
+  const duplicateMidiProfile = () => {
+      const copy = { ...midiProfile, id: `midi-${Date.now()}`, name: `${midiProfile.name} (copie)` };
+      saveMidiProfiles([...midiProfiles, copy], copy.id);
+  };
+
+  const deleteMidiProfile = () => {
+      if (isPresetProfile(midiProfile.id) || !window.confirm(`Supprimer le profil « ${midiProfile.name} » ?`)) return;
+      const remaining = midiProfiles.filter(p => p.id !== midiProfile.id);
+      saveMidiProfiles(remaining, remaining[0].id);
+  };
+
+  // Note-on -> corde attendue, CC -> action attendue ; les autres messages sont ignorés
+  const handleMidiLearn = (data: number[]) => {
+      const target = midiLearnTarget;
+      const [status, data1, data2] = data;
+      const command = status & 0xF0;
+      if (!target || messageChannel(status) === null) return;
+      if (target.kind === 'string' && command === 0x90 && data2 > 0) {
+          updateMidiProfile(learnNote(midiProfile, data1, target.stringId));
+          setMidiLearnTarget(null);
+      } else if (target.kind === 'action' && command === 0xB0) {
+          updateMidiProfile(learnControl(midiProfile, data1, target.action));
+          setMidiLearnTarget(null);
+      }
+  };
+
+  const handleMidiAction = (action: MidiAction) => {
+      if (action === 'play') { if (playbackState === PlaybackState.PLAYING) pausePlayback(); else startPlayback(); }
+      else if (action === 'stop') stopPlayback();
+      else if (action === 'rewind') rewindPlayback();
+      else if (action === 'undo') handleUndo();
+      else if (action === 'record') { if (isTakeRecording) stopPlayback(); else startTake(); }
+      else if (action === 'metronome') setIsMetronomeOn(on => !on);
+  };
+
+  // --- CLAVIER D'ORDINATEUR (MODE JEU) ---
+  const saveKeyboard = (layout: KeyboardLayout, advance: KeyboardAdvance) => {
+      setKeyboardLayout(layout);
+      setKeyboardAdvance(advance);
+      localStorage.setItem('ngonilele_keyboard', JSON.stringify({ layout, advance }));
+  };
+
+  // Touche enfoncée : son immédiat et note au curseur. Les touches tenues ensemble forment un accord :
+  // le curseur ne bouge qu'au relâchement de la dernière.
+  const handlePlayKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (keyboardLearnString) {
+          e.preventDefault();
+          if (e.code === 'Escape') setKeyboardLearnString(null);
+          else if (isAssignableKey(e.code)) {
+              saveKeyboard(assignKey(keyboardLayout, e.code, keyboardLearnString), keyboardAdvance);
+              setKeyboardLearnString(null);
+          }
+          return;
+      }
+
+      const stringId = isKeyboardPlay ? keyboardLayout[e.code] : undefined;
+      if (!stringId) return;
+      e.preventDefault();
+      if (e.repeat || heldKeysRef.current.has(e.code)) return;
+      heldKeysRef.current.add(e.code);
+      audioEngine.previewString(stringId);
+      const finger = fingeringMode === 'auto' ? (['4D','5D','6D','4G','5G','6G'].includes(stringId) ? 'I' : 'P') : undefined;
+      handleNoteAdd(stringId, finger, undefined, 0, undefined, false);
+  };
+
+  const handlePlayKeyUp = (e: KeyboardEvent) => {
+      if (!heldKeysRef.current.delete(e.code) || heldKeysRef.current.size > 0) return;
+      if (playbackState !== PlaybackState.STOPPED || cursorTickRef.current < TICKS_COUNT_IN) return;
+      const newTick = cursorTickRef.current + (KEYBOARD_ADVANCES.find(a => a.symbol === keyboardAdvance)?.ticks ?? TICKS_QUARTER);
+      cursorTickRef.current = newTick;
+      setCurrentTick(newTick);
+  };
+
+  useEffect(() => { keyboardHandlersRef.current = { down: handlePlayKeyDown, up: handlePlayKeyUp }; });
+
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => keyboardHandlersRef.current?.down(e);
+      const onKeyUp = (e: KeyboardEvent) => keyboardHandlersRef.current?.up(e);
+      // Fenêtre quittée touches enfoncées : les relâchements ne viendront pas
+      const onBlur = () => heldKeysRef.current.clear();
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      window.addEventListener('blur', onBlur);
+      // Libellés de la disposition active (AZERTY…), si le navigateur les fournit
+      (navigator as any).keyboard?.getLayoutMap?.().then((map: Map<string, string>) => setKeyboardLayoutMap(map)).catch(() => {});
+      return () => {
+          window.removeEventListener('keydown', onKeyDown);
+          window.removeEventListener('keyup', onKeyUp);
+          window.removeEventListener('blur', onBlur);
+      };
+  }, []);
+
+  useEffect(() => {
+      midiProfileRef.current = midiProfile;
+      midiLearnTargetRef.current = midiLearnTarget;
+      midiHandlersRef.current = { learn: handleMidiLearn, action: handleMidiAction };
+  });
+
   const checkAdminPermission = () => {
       if (userRole !== 'admin') {
           alert("🔒 Action restreinte aux licences valides.\n\nEn mode Invité, vous ne pouvez pas modifier la banque de données ou supprimer des éléments.");
@@ -735,6 +1040,73 @@ export default function App() {
       return true;
   };
 
+  // --- MÉTRONOME ET DÉCOMPTE ---
+  const updateMetronome = (patch: Partial<MetronomeSettings>) => {
+      const next = { ...metronome, ...patch };
+      setMetronome(next);
+      localStorage.setItem('ngonilele_metronome', JSON.stringify(next));
+  };
+
+  // Un clic sur un temps fait tourner son accent : fort -> moyen -> faible -> muet
+  const cycleAccent = (segment: MeterSegment, beatIndex: number) => {
+      const pattern = [...accentPattern(metronome, segment)];
+      pattern[beatIndex] = (pattern[beatIndex] === 0 ? 3 : pattern[beatIndex] - 1) as AccentLevel;
+      updateMetronome({ accents: { ...metronome.accents, [meterKey(segment)]: pattern } });
+  };
+
+  // Chiffrages utilisés par la partition (un éditeur d'accents par chiffrage)
+  const projectMeters = useMemo(() => {
+      const segments = buildMeasureMap(parsedData, meterFromRhythmMode(rhythmMode));
+      return segments.filter((segment, i) => segments.findIndex(other => meterKey(other) === meterKey(segment)) === i);
+  }, [parsedData, rhythmMode]);
+
+  // --- PACKS DE SAMPLES PERSONNELS ---
+  const saveCustomSamplePacks = (packs: SamplePack[]) => {
+      setCustomSamplePacks(packs);
+      localStorage.setItem('ngonilele_sample_packs', JSON.stringify(packs));
+  };
+
+  const createSamplePack = () => {
+      const name = newSamplePackName.trim();
+      if (!name) return;
+      const pack: SamplePack = { id: `custom-${Date.now()}`, name, samples: {}, custom: true };
+      saveCustomSamplePacks([...customSamplePacks, pack]);
+      setSamplePackId(pack.id);
+      setNewSamplePackName('');
+  };
+
+  // Enregistrement d'une corde : joué pour la note accordée (et les notes voisines)
+  const handleUploadRecording = async (stringId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file || !samplePack.custom) return;
+      const note = currentTuning[stringId];
+      if (!note) return;
+      const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')) : '';
+      const fileName = `${note}${extension}`;
+      try {
+          await saveRecording(samplePack.id, fileName, file);
+      } catch (err) {
+          console.error(err);
+          alert("Impossible d'enregistrer ce fichier dans le navigateur.");
+          return;
+      }
+      const updated: SamplePack = { ...samplePack, samples: { ...samplePack.samples, [note]: { file: fileName, root: note } } };
+      saveCustomSamplePacks(customSamplePacks.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const setSamplePackGain = (gain: number) => {
+      if (!samplePack.custom) return;
+      saveCustomSamplePacks(customSamplePacks.map(p => p.id === samplePack.id ? { ...p, gain } : p));
+  };
+
+  const deleteSamplePack = async () => {
+      if (!samplePack.custom || !window.confirm(`Supprimer le pack "${samplePack.name}" et ses enregistrements ?`)) return;
+      try { await deleteRecordings(samplePack.id); } catch (err) { console.error(err); }
+      saveCustomSamplePacks(customSamplePacks.filter(p => p.id !== samplePack.id));
+      setSamplePackId(DEFAULT_SAMPLE_PACK.id);
+  };
+
   const handleScaleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const scaleName = e.target.value;
     const preset = SCALES_PRESETS.find(s => s.name === scaleName);
@@ -926,9 +1298,15 @@ export default function App() {
 
   const regenerateCodeFromAbsolutePositions = (notes: ParsedNote[]) => {
       const validNotes = notes.filter(n => n.stringId);
-      validNotes.sort((a, b) => { if (a.tick !== b.tick) return a.tick - b.tick; return a.stringId.localeCompare(b.stringId); });
+      // Les marqueurs de reprise précèdent les notes de leur tick (fin avant début)
+      const markerRank = (n: ParsedNote) => { const i = ['REPEAT_END', 'REPEAT_START', 'ENDING'].indexOf(n.stringId); return i === -1 ? 3 : i; };
+      validNotes.sort((a, b) => { if (a.tick !== b.tick) return a.tick - b.tick; if (markerRank(a) !== markerRank(b)) return markerRank(a) - markerRank(b); return a.stringId.localeCompare(b.stringId); });
       let lastTick = 0; let lines: string[] = [];
       validNotes.forEach((note) => {
+          // Repeat markers have no duration: they take the tick of the next line
+          if (note.stringId === 'REPEAT_START') { lines.push('REPEAT_START'); return; }
+          if (note.stringId === 'REPEAT_END') { lines.push(`REPEAT_END   ${note.repeat || 2}`); return; }
+          if (note.stringId === 'ENDING') { lines.push(`ENDING   ${(note.ending || [1]).join(',')}`); return; }
           if (note.stringId === 'TEXTE') {
               const delta = Math.max(0, note.tick - lastTick);
               const symbol = delta === 0 ? '+' : delta.toString();
@@ -938,12 +1316,47 @@ export default function App() {
               return;
           }
           if (note.stringId === 'PAGE_BREAK') { lines.push(`+   PAGE`); return; }
+          if (note.stringId === 'TEMPO' || note.stringId === 'ACCEL' || note.stringId === 'RIT') {
+              const delta = Math.max(0, note.tick - lastTick);
+              const beats = note.stringId !== 'TEMPO' ? `   ${note.tempoBeats}` : '';
+              lines.push(`${delta === 0 ? '=' : delta}   ${note.stringId}   ${note.tempo}${beats}`);
+              lastTick = note.tick;
+              return;
+          }
+          if (note.stringId === 'MESURE' && note.meter) {
+              const delta = Math.max(0, note.tick - lastTick);
+              lines.push(`${delta === 0 ? '=' : delta}   MESURE   ${note.meter.numerator}/${note.meter.denominator}`);
+              lastTick = note.tick;
+              return;
+          }
+          if (note.stringId === 'GROOVE' && note.groove) {
+              const delta = Math.max(0, note.tick - lastTick);
+              const usesSwing = GROOVE_TEMPLATES.find(t => t.id === note.groove!.template)?.usesSwing;
+              lines.push(`${delta === 0 ? '=' : delta}   GROOVE   ${note.groove.template}${usesSwing ? `   ${note.groove.swing}` : ''}`);
+              lastTick = note.tick;
+              return;
+          }
+          if (note.stringId === 'DYN') {
+              const delta = Math.max(0, note.tick - lastTick);
+              lines.push(`${delta === 0 ? '=' : delta}   DYN   ${note.message}`);
+              lastTick = note.tick;
+              return;
+          }
+          if (note.stringId === 'STOP') {
+              const delta = Math.max(0, note.tick - lastTick);
+              const targets = note.stopStrings && note.stopStrings.length > 0 ? `   ${note.stopStrings.join(' ')}` : '';
+              lines.push(`${delta === 0 ? '=' : delta}   STOP${targets}`);
+              lastTick = note.tick;
+              return;
+          }
           const delta = Math.max(0, note.tick - lastTick);
           let symbol = ''; if (delta === 0) { symbol = '='; } else { symbol = delta.toString(); }
           
           // MODIF: Si doigt est undefined (mode manuel), on ne l'affiche pas dans le code
           const fingerStr = note.doigt ? `   ${note.doigt}` : '';
-          lines.push(`${symbol}   ${note.stringId}${fingerStr}`);
+          const repeatStr = note.repeat && note.repeat > 1 ? `   x${note.repeat}` : '';
+          const dynamicStr = note.dynamicMark ? `   ${note.dynamicMark}` : '';
+          lines.push(`${symbol}   ${note.stringId}${fingerStr}${repeatStr}${dynamicStr}`);
           
           lastTick = note.tick;
       });
@@ -1087,12 +1500,22 @@ export default function App() {
       if (selectedNoteId === note.id) setSelectedNoteId(null);
   };
   
+  const handleApplyDiagnosticFix = (diagnostic: ParseDiagnostic) => {
+      if (diagnostic.suggestion === undefined) return;
+      const lines = code.split('\n');
+      if (diagnostic.lineIndex >= lines.length) return;
+      lines[diagnostic.lineIndex] = diagnostic.suggestion;
+      updateCode(lines.join('\n'));
+  };
+
   const handleUpdateFinger = (note: ParsedNote, finger: string) => {
       if (note.lineIndex === undefined) return;
       const lines = code.split('\n');
-      const parts = lines[note.lineIndex].split(/\s+/);
+      const parts = lines[note.lineIndex].trim().split(/\s+/);
       if (parts.length >= 2) {
-          let newLine = `${parts[0]}   ${parts[1]}   ${finger}`;
+          // Keep the other columns (xN repeats) after the new finger
+          const extras = parts.slice(2).filter(p => !['P', 'I'].includes(p.toUpperCase()));
+          let newLine = [`${parts[0]}   ${parts[1]}   ${finger}`, ...extras].join('   ');
           lines[note.lineIndex] = newLine;
           updateCode(lines.join('\n'));
       }
@@ -1163,6 +1586,7 @@ export default function App() {
       setCodeHistory([]);
       setSelectedNoteId(null);
       setSelectedNoteIds([]);
+      setTranscriptionConfidence(null);
       setNewProjectModalOpen(false);
   };
 
@@ -1370,7 +1794,7 @@ export default function App() {
   const deleteNote = () => { if (!editModal.note) return; handleDeleteNote(editModal.note); setEditModal({ ...editModal, visible: false }); };
 
   const saveProjectFile = () => {
-    const project = { title: tabTitle, version: '1.0', timestamp: new Date().toISOString(), code, tuning: currentTuning, scaleName: selectedScaleName, bpm, rhythmMode };
+    const project = { title: tabTitle, version: '1.0', timestamp: new Date().toISOString(), code, tuning: currentTuning, scaleName: selectedScaleName, bpm, rhythmMode, groove, instrumentVoice, synthParams, samplePackId, mixer };
     const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a'); a.href = url; 
@@ -1393,15 +1817,127 @@ export default function App() {
         if (project.scaleName) setSelectedScaleName(project.scaleName);
         if (project.bpm) setBpm(project.bpm);
         if (project.rhythmMode) setRhythmMode(project.rhythmMode);
+        setGroove(project.groove || DEFAULT_GROOVE);
+        setInstrumentVoice(project.instrumentVoice || 'samples');
+        setSynthParams(project.synthParams || DEFAULT_SYNTH_PARAMS);
+        setSamplePackId(project.samplePackId || DEFAULT_SAMPLE_PACK.id);
+        setMixer(project.mixer || createDefaultMixer());
+        setTranscriptionConfidence(null);
         alert("Projet chargé !");
       } catch (err) { alert("Erreur chargement."); }
     };
     reader.readAsText(file); e.target.value = '';
   };
 
+  // --- IMPORT MIDI (.mid -> code) ---
+  const handleImportMidi = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const buffer = event.target?.result as ArrayBuffer;
+        let tuning = currentTuning;
+        let result = importMidiFile(buffer, tuning);
+
+        if (result.unmapped.length > 0) {
+          const missing = result.unmapped.map(u => `${u.pitch} (x${u.count})`).join(', ');
+          const scale = result.suggestedScale ? SCALES_PRESETS.find(p => p.name === result.suggestedScale) : undefined;
+          if (scale && window.confirm(`Notes sans corde dans la gamme actuelle : ${missing}.\n\nLa gamme « ${scale.name} » couvre mieux ce fichier. L'utiliser ?`)) {
+            tuning = scale.tuning;
+            setSelectedScaleName(scale.name); setCurrentTuning(scale.tuning); audioEngine.setTuning(scale.tuning);
+            result = importMidiFile(buffer, tuning);
+          }
+          if (result.unmapped.length > 0) {
+            alert(`Notes ignorées (aucune corde ne les joue) : ${result.unmapped.map(u => `${u.pitch} (x${u.count})`).join(', ')}`);
+          }
+        }
+
+        if (result.notes.length === 0) { alert("Aucune note importable dans ce fichier MIDI."); return; }
+        regenerateCodeFromAbsolutePositions(result.notes);
+        if (!tabTitle.trim()) setTabTitle(file.name.replace(/\.midi?$/i, ''));
+      } catch (err) {
+        console.error(err);
+        alert(`Erreur import MIDI : ${err instanceof Error ? err.message : err}`);
+      }
+    };
+    reader.readAsArrayBuffer(file); e.target.value = '';
+  };
+
+  // --- TRANSCRIPTION D'UN ENREGISTREMENT (fichier audio -> brouillon de code) ---
+  // Notes limitées aux cordes de la gamme choisie, tempo estimé, quantification sur la grille des prises
+  const handleImportAudio = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; e.target.value = ''; if (!file) return;
+    if (parsedData.some(n => STRING_CONFIGS.some(s => s.stringId === n.stringId)) && !window.confirm(`Remplacer la partition actuelle par la transcription de « ${file.name} » ?`)) return;
+    setIsTranscribing(true);
+    try {
+      const { samples, sampleRate } = await audioEngine.decodeRecording(await file.arrayBuffer());
+      const result = await transcribeInWorker(samples, sampleRate, currentTuning);
+      if (result.notes.length === 0) { alert("Aucune note de la gamme reconnue dans cet enregistrement."); return; }
+
+      const hits = detectionsToHits(result.notes, beatGridTick(result.bpm, result.firstBeat));
+      // Les notes d'une même attaque partagent leur instant : chacune tombe sur le tick de son accord
+      const confidence: Record<string, number> = {};
+      hits.forEach((hit, i) => { confidence[`${Math.max(TICKS_COUNT_IN, quantizeToGrid(hit.tick, recordGrid))}-${hit.stringId}`] = result.notes[i].confidence; });
+
+      setBpm(result.bpm);
+      regenerateCodeFromAbsolutePositions(quantizeTake(hits, recordGrid));
+      setTranscriptionConfidence(confidence);
+      if (!tabTitle.trim()) setTabTitle(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      console.error(err);
+      alert(`Erreur de transcription : ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  // La confiance ne vaut que pour le code transcrit : elle disparaît à la première modification
+  useEffect(() => {
+      confidenceCodeRef.current = transcriptionConfidence ? code : null;
+  }, [transcriptionConfidence]);
+
+  useEffect(() => {
+      if (confidenceCodeRef.current !== null && code !== confidenceCodeRef.current) setTranscriptionConfidence(null);
+  }, [code]);
+
   const handleDownloadPDF = () => {
       const title = tabTitle || "Ma Composition Ngonilélé";
-      generatePDF(code, title, selectedScaleName);
+      generatePDF(code, currentTuning, title, selectedScaleName, { includeTableOfContents: pdfWithToc, rhythmMode });
+  };
+
+  // --- MUSICXML EXPORT (logiciels de notation) ---
+  const handleExportMusicXML = () => {
+      const title = tabTitle || "Ma Composition Ngonilélé";
+      const xml = generateMusicXML(code, currentTuning, title, rhythmMode);
+      const blob = new Blob([xml], { type: 'application/vnd.recordare.musicxml+xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      const safeName = title.trim().replace(/[^a-z0-9\-_]/gi, '_') || 'partition_ngonilele';
+      a.download = `${safeName}.musicxml`;
+      document.body.appendChild(a);
+      a.click();
+      setTimeout(() => { document.body.removeChild(a); window.URL.revokeObjectURL(url); }, 100);
+  };
+
+  // --- MIDI EXPORT (SMF type 1, pour les DAW) ---
+  const handleExportMidi = () => {
+      audioEngine.setNotes(parsedData);
+      audioEngine.setBpm(bpm);
+      audioEngine.setRhythmMode(rhythmMode);
+      const midiBlob = audioEngine.exportMidi();
+      if (!midiBlob) { alert("Impossible de générer le MIDI (aucune note ?)"); return; }
+
+      const url = URL.createObjectURL(midiBlob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      const safeName = tabTitle.trim().replace(/[^a-z0-9\-_]/gi, '_') || 'midi_ngonilele';
+      a.download = `${safeName}.mid`;
+      document.body.appendChild(a);
+      a.click();
+      setTimeout(() => { document.body.removeChild(a); window.URL.revokeObjectURL(url); }, 100);
   };
 
   // --- AUDIO EXPORT (MP3 - Offline) ---
@@ -1414,7 +1950,7 @@ export default function App() {
       try {
           // Init context to be sure
           audioEngine.init(); 
-          const mp3Blob = await audioEngine.exportMp3(); // Use new MP3 export
+          const mp3Blob = await audioEngine.exportMp3(exportRenderOptions);
           if (mp3Blob) {
               const url = URL.createObjectURL(mp3Blob);
               const a = document.createElement('a');
@@ -1472,7 +2008,7 @@ export default function App() {
             audioEngine.setPlaybackSpeed(exportPlaybackSpeed); // Apply slow motion choice
 
             // This is the heavy lifting - render entire audio first!
-            const audioBuffer = await audioEngine.renderProjectToBuffer();
+            const audioBuffer = await audioEngine.renderProjectToBuffer(exportRenderOptions);
 
             if (!audioBuffer) {
                  alert("Erreur: Impossible de générer l'audio pour la vidéo.");
@@ -2092,6 +2628,167 @@ export default function App() {
                              </div>
                          </div>
                       </div>
+                      <div className="border-t border-[#cbb094]/50 pt-1 mt-1 mb-1 w-full max-w-3xl">
+                         <h3 className="font-black text-sm mb-1 flex items-center gap-2 justify-center text-[#5d4037] mt-2"><Headphones size={14} /> Son de l'instrument</h3>
+                         <div className="bg-[#dcc0a3]/60 p-3 rounded-xl border-2 border-[#cbb094] shadow-sm backdrop-blur-md flex flex-col gap-2 text-xs text-[#5d4037]">
+                             <div className="flex items-center justify-center gap-2">
+                                 <div className="flex items-center bg-[#8d6e63] rounded overflow-hidden shadow-sm font-medium border border-[#8d6e63] h-7">
+                                     <button onClick={() => setInstrumentVoice('samples')} className={`h-full px-3 transition-colors ${instrumentVoice === 'samples' ? 'bg-[#8d6e63] text-[#e5c4a1]' : 'bg-[#e5c4a1] text-[#5d4037] hover:bg-[#dcc0a3]'}`}>Samples</button>
+                                     <div className="w-[1px] h-full bg-[#e5c4a1]/30"></div>
+                                     <button onClick={() => setInstrumentVoice('synth')} className={`h-full px-3 transition-colors ${instrumentVoice === 'synth' ? 'bg-[#8d6e63] text-[#e5c4a1]' : 'bg-[#e5c4a1] text-[#5d4037] hover:bg-[#dcc0a3]'}`}>Synthèse</button>
+                                 </div>
+                                 <button onClick={() => audioEngine.previewString('4D')} className="flex items-center gap-1 px-2 h-7 rounded shadow border bg-[#e5c4a1] text-[#5d4037] border-[#cbb094] hover:bg-[#dcc0a3] font-medium"><Play size={12} /> Écouter</button>
+                             </div>
+                             <p className="text-center text-[10px] text-[#8d6e63]">La synthèse de corde sert aussi de secours quand un sample ne peut pas être chargé.</p>
+                             {instrumentVoice === 'samples' && (
+                                 <div className="flex flex-col gap-2 border-t border-[#cbb094] pt-2">
+                                     <div className="flex flex-wrap items-center justify-center gap-2">
+                                         <label className="font-bold">Pack :</label>
+                                         <select value={samplePack.id} onChange={(e) => setSamplePackId(e.target.value)} className="p-1 bg-[#e5c4a1] border border-[#cbb094] rounded font-bold outline-none cursor-pointer">
+                                             {SAMPLE_PACKS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                             {customSamplePacks.map(p => <option key={p.id} value={p.id}>{p.name} (perso)</option>)}
+                                         </select>
+                                         {samplePack.custom && (
+                                             <button onClick={deleteSamplePack} className="p-1 rounded hover:bg-[#cbb094] text-[#800020]" title="Supprimer le pack"><Trash2 size={14} /></button>
+                                         )}
+                                         <input value={newSamplePackName} onChange={(e) => setNewSamplePackName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') createSamplePack(); }} placeholder="Nouveau pack (ex : Kamalen n'goni)" className="p-1 bg-[#e5c4a1] border border-[#cbb094] rounded outline-none w-48" />
+                                         <button onClick={createSamplePack} disabled={!newSamplePackName.trim()} className="flex items-center gap-1 px-2 py-1 rounded shadow border bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3] font-medium disabled:opacity-50"><Plus size={12} /> Créer</button>
+                                     </div>
+                                     {samplePack.custom && (
+                                         <>
+                                             <p className="text-center text-[10px] text-[#8d6e63]">Importez un enregistrement par corde (note accordée). Les cordes sans enregistrement utilisent les samples d'origine.</p>
+                                             <div className="grid grid-cols-2 md:grid-cols-3 gap-1">
+                                                 {STRING_CONFIGS.map(str => {
+                                                     const note = currentTuning[str.stringId];
+                                                     const recorded = !!(note && samplePack.samples[note]);
+                                                     return (
+                                                         <label key={str.stringId} className={`flex items-center justify-between gap-1 px-2 py-1 rounded border cursor-pointer ${recorded ? 'bg-[#8d6e63] text-[#e5c4a1] border-[#8d6e63]' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`}>
+                                                             <span className="font-bold">{str.stringId} · {note}</span>
+                                                             {recorded ? <CheckCircle2 size={12} /> : <Download size={12} className="rotate-180" />}
+                                                             <input type="file" accept="audio/*" className="hidden" onChange={(e) => handleUploadRecording(str.stringId, e)} />
+                                                         </label>
+                                                     );
+                                                 })}
+                                             </div>
+                                             <label className="flex items-center justify-center gap-2 font-bold">
+                                                 Volume du pack ({Math.round((samplePack.gain ?? 1) * 100)}%)
+                                                 <input type="range" min={0.25} max={2} step={0.05} value={samplePack.gain ?? 1} onChange={(e) => setSamplePackGain(parseFloat(e.target.value))} className="w-32 accent-[#8d6e63]" />
+                                             </label>
+                                         </>
+                                     )}
+                                 </div>
+                             )}
+                             {instrumentVoice === 'samples' && sampleStatus.total > 0 && (
+                                 <div className="flex flex-col items-center gap-1">
+                                     <div className="w-full max-w-xs h-1.5 bg-[#e5c4a1] rounded-full overflow-hidden border border-[#cbb094]">
+                                         <div className="h-full bg-[#8d6e63] transition-all" style={{ width: `${(sampleStatus.loaded / sampleStatus.total) * 100}%` }}></div>
+                                     </div>
+                                     <span className="text-[10px] font-bold">
+                                         {sampleStatus.loading ? `Chargement des samples : ${sampleStatus.loaded} / ${sampleStatus.total}` : `Samples prêts (${sampleStatus.total})`}
+                                     </span>
+                                     {sampleStatus.missing.length > 0 && (
+                                         <span className="text-[10px] font-bold text-[#800020] flex items-center gap-1"><AlertTriangle size={12} /> Samples introuvables, joués par la synthèse : {sampleStatus.missing.join(', ')}</span>
+                                     )}
+                                 </div>
+                             )}
+                             <div className="grid grid-cols-3 gap-3">
+                                 {([['brightness', 'Brillance'], ['damping', 'Amortissement'], ['buzz', 'Grésillement']] as [keyof SynthParams, string][]).map(([key, label]) => (
+                                     <label key={key} className="flex flex-col items-center gap-0.5 font-bold">
+                                         {label} ({Math.round(synthParams[key] * 100)}%)
+                                         <input type="range" min={0} max={1} step={0.05} value={synthParams[key]} onChange={(e) => setSynthParams({ ...synthParams, [key]: parseFloat(e.target.value) })} className="w-full accent-[#8d6e63]" />
+                                     </label>
+                                 ))}
+                             </div>
+                         </div>
+                      </div>
+                      <div className="border-t border-[#cbb094]/50 pt-1 mt-1 mb-1 w-full max-w-3xl">
+                         <h3 className="font-black text-sm mb-1 flex items-center gap-2 justify-center text-[#5d4037] mt-2"><Timer size={14} /> Métronome et décompte</h3>
+                         <div className="bg-[#dcc0a3]/60 p-3 rounded-xl border-2 border-[#cbb094] shadow-sm backdrop-blur-md flex flex-col gap-3 text-xs text-[#5d4037]">
+                             <div className="flex flex-wrap items-center justify-center gap-2">
+                                 {METRONOME_VOICES.map(v => (
+                                     <button key={v.id} onClick={() => updateMetronome({ voice: v.id })} className={`px-3 py-1 rounded shadow border font-medium transition-colors ${metronome.voice === v.id ? 'bg-[#8d6e63] text-[#e5c4a1] border-[#8d6e63]' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`}>{v.name}</button>
+                                 ))}
+                             </div>
+                             {metronome.voice === 'voice' && <p className="text-center text-[10px] italic opacity-80">Comptes dits par la synthèse vocale du navigateur, en lecture seulement : les exports utilisent le wood-block.</p>}
+                             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                 <label className="flex flex-col gap-1">
+                                     <span className="font-bold">Volume : {Math.round(metronome.volume * 100)}%</span>
+                                     <input type="range" min={0} max={1.5} step={0.05} value={metronome.volume} onChange={(e) => updateMetronome({ volume: parseFloat(e.target.value) })} className="accent-[#8d6e63]" />
+                                 </label>
+                                 <label className="flex flex-col gap-1">
+                                     <span className="font-bold">Subdivisions</span>
+                                     <select value={metronome.subdivision} onChange={(e) => updateMetronome({ subdivision: parseInt(e.target.value, 10) })} className="bg-[#e5c4a1] border border-[#cbb094] rounded px-1 py-0.5 font-bold outline-none">
+                                         <option value={1}>Temps seulement</option>
+                                         <option value={2}>Croches (2 par temps)</option>
+                                         <option value={3}>Triolets (3 par temps)</option>
+                                         <option value={4}>Doubles croches (4 par temps)</option>
+                                     </select>
+                                 </label>
+                                 <label className="flex flex-col gap-1">
+                                     <span className="font-bold">Décompte avant la lecture</span>
+                                     <select value={metronome.countInBars} onChange={(e) => updateMetronome({ countInBars: parseInt(e.target.value, 10) })} className="bg-[#e5c4a1] border border-[#cbb094] rounded px-1 py-0.5 font-bold outline-none">
+                                         <option value={0}>Aucun</option>
+                                         <option value={1}>1 mesure</option>
+                                         <option value={2}>2 mesures</option>
+                                     </select>
+                                 </label>
+                             </div>
+                             {/* Accents : un motif par chiffrage de la partition */}
+                             <div className="flex flex-col gap-1">
+                                 <span className="font-bold">Accents (clic sur un temps : fort → moyen → faible → muet)</span>
+                                 {projectMeters.map(segment => (
+                                     <div key={meterKey(segment)} className="flex items-center gap-2">
+                                         <span className="font-black w-10">{meterKey(segment)}</span>
+                                         {accentPattern(metronome, segment).map((level, i) => (
+                                             <button key={i} onClick={() => cycleAccent(segment, i)} className="w-7 h-8 flex flex-col items-center justify-end rounded border border-[#cbb094] bg-[#e5c4a1] hover:bg-[#dcc0a3] pb-0.5" title={['Muet', 'Faible', 'Moyen', 'Fort'][level]}>
+                                                 <span className="w-3 rounded-sm bg-[#800020]" style={{ height: `${level * 6}px` }}></span>
+                                                 <span className="text-[9px] font-bold leading-none mt-0.5">{i + 1}</span>
+                                             </button>
+                                         ))}
+                                         {metronome.accents[meterKey(segment)] && (
+                                             <button onClick={() => { const { [meterKey(segment)]: _, ...accents } = metronome.accents; updateMetronome({ accents }); }} className="p-1 rounded hover:bg-[#cbb094]" title="Accents par défaut"><RotateCcw size={12} /></button>
+                                         )}
+                                     </div>
+                                 ))}
+                             </div>
+                         </div>
+                      </div>
+                      <div className="border-t border-[#cbb094]/50 pt-1 mt-1 mb-1 w-full max-w-3xl">
+                         <h3 className="font-black text-sm mb-1 flex items-center gap-2 justify-center text-[#5d4037] mt-2"><Piano size={14} /> Contrôleur MIDI</h3>
+                         <div className="bg-[#dcc0a3]/60 p-3 rounded-xl border-2 border-[#cbb094] shadow-sm backdrop-blur-md">
+                             <MidiMapping
+                                 profiles={midiProfiles}
+                                 profile={midiProfile}
+                                 onSelect={(id) => saveMidiProfiles(midiProfiles, id)}
+                                 onChange={updateMidiProfile}
+                                 onDuplicate={duplicateMidiProfile}
+                                 onDelete={deleteMidiProfile}
+                                 learnTarget={midiLearnTarget}
+                                 onLearn={setMidiLearnTarget}
+                                 tuning={currentTuning}
+                                 isMidiEnabled={isMidiEnabled}
+                             />
+                         </div>
+                      </div>
+                      <div className="border-t border-[#cbb094]/50 pt-1 mt-1 mb-1 w-full max-w-3xl">
+                         <h3 className="font-black text-sm mb-1 flex items-center gap-2 justify-center text-[#5d4037] mt-2"><Keyboard size={14} /> Clavier d'ordinateur</h3>
+                         <div className="bg-[#dcc0a3]/60 p-3 rounded-xl border-2 border-[#cbb094] shadow-sm backdrop-blur-md">
+                             <KeyboardMapping
+                                 layout={keyboardLayout}
+                                 onReset={() => saveKeyboard(DEFAULT_KEYBOARD_LAYOUT, keyboardAdvance)}
+                                 learnStringId={keyboardLearnString}
+                                 onLearn={setKeyboardLearnString}
+                                 layoutMap={keyboardLayoutMap}
+                                 tuning={currentTuning}
+                             />
+                         </div>
+                      </div>
+                      <div className="border-t border-[#cbb094]/50 pt-1 mt-1 mb-1 w-full max-w-3xl">
+                         <h3 className="font-black text-sm mb-1 flex items-center gap-2 justify-center text-[#5d4037] mt-2"><Activity size={14} /> Mixeur (lecture et exports)</h3>
+                         <div className="bg-[#dcc0a3]/60 p-3 rounded-xl border-2 border-[#cbb094] shadow-sm backdrop-blur-md">
+                             <Mixer mixer={mixer} onChange={setMixer} tuning={currentTuning} />
+                         </div>
+                      </div>
                   </div>
               )}
 
@@ -2125,6 +2822,19 @@ export default function App() {
                                      <button onClick={() => setMyBlocksModalOpen(true)} className="flex items-center gap-1 px-3 py-0.5 bg-[#8d6e63] text-[#e5c4a1] rounded shadow-md hover:bg-[#6d4c41] transition-colors font-bold text-xs">
                                          <LayoutGrid size={14} /> Mes Blocs
                                      </button>
+                                     <button onClick={() => midiImportInputRef.current?.click()} title="Importer un fichier .mid" className="flex items-center gap-1 px-3 py-0.5 bg-[#e5c4a1] text-[#5d4037] border border-[#8d6e63] rounded shadow-md hover:bg-[#dcc0a3] transition-colors font-bold text-xs">
+                                         <Piano size={14} /> Import MIDI
+                                     </button>
+                                     <input type="file" accept=".mid,.midi,audio/midi" ref={midiImportInputRef} onChange={handleImportMidi} className="hidden" />
+                                     <button onClick={() => audioImportInputRef.current?.click()} disabled={isTranscribing} title="Transcrire un enregistrement (mp3, wav, m4a…) en brouillon de tablature" className="flex items-center gap-1 px-3 py-0.5 bg-[#e5c4a1] text-[#5d4037] border border-[#8d6e63] rounded shadow-md hover:bg-[#dcc0a3] transition-colors font-bold text-xs disabled:opacity-60">
+                                         {isTranscribing ? <Loader2 size={14} className="animate-spin" /> : <FileAudio size={14} />} Import audio
+                                     </button>
+                                     <input type="file" accept="audio/*" ref={audioImportInputRef} onChange={handleImportAudio} className="hidden" />
+                                     {transcriptionConfidence && (
+                                         <button onClick={() => setTranscriptionConfidence(null)} title="Masquer la confiance de la transcription" className="flex items-center gap-1 px-2 py-0.5 bg-[#e5c4a1] text-[#5d4037] border border-[#8d6e63] rounded shadow-md hover:bg-[#dcc0a3] transition-colors font-bold text-xs">
+                                             <X size={12} /> Confiance
+                                         </button>
+                                     )}
                                 </div>
                             </div>
 
@@ -2141,7 +2851,7 @@ export default function App() {
                                     {playbackState === PlaybackState.PLAYING ? (
                                          <button onClick={pausePlayback} className="h-full px-2 hover:bg-[#cbb094] text-[#5d4037] transition-colors flex items-center justify-center border-r border-[#cbb094]"><Pause size={16} /></button>
                                     ) : (
-                                         <button onClick={startPlayback} className="h-full px-2 hover:bg-[#cbb094] text-[#5d4037] transition-colors flex items-center justify-center border-r border-[#cbb094]"><Play size={16} /></button>
+                                         <button onClick={startPlayback} className="h-full px-2 hover:bg-[#cbb094] text-[#5d4037] transition-colors flex items-center justify-center border-r border-[#cbb094]">{sampleStatus.loading ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}</button>
                                     )}
                                     
                                     {/* Speed */}
@@ -2152,6 +2862,7 @@ export default function App() {
                                             <option value={0.75} className="bg-[#e5c4a1]">x0.75</option>
                                             <option value={1} className="bg-[#e5c4a1]">x1.0</option>
                                             <option value={1.5} className="bg-[#e5c4a1]">x1.5</option>
+                                            {![0.5, 0.75, 1, 1.5].includes(playbackSpeed) && <option value={playbackSpeed} className="bg-[#e5c4a1]">x{playbackSpeed.toFixed(2)}</option>}
                                         </select>
                                     </div>
 
@@ -2177,6 +2888,50 @@ export default function App() {
                                     <button onClick={() => setRhythmMode('ternary')} className={`h-full px-2 transition-colors ${rhythmMode === 'ternary' ? 'bg-[#8d6e63] text-[#e5c4a1]' : 'bg-[#e5c4a1] text-[#5d4037] hover:bg-[#dcc0a3]'}`}>3/4</button>
                                 </div>
 
+                                {/* Groove (projet) : les commandes GROOVE du code le remplacent par section */}
+                                <div className="flex items-center gap-1 px-2 h-7 ml-1 bg-[#e5c4a1] rounded shadow-sm border border-[#cbb094] text-xs" data-tooltip={`Groove du projet\n(commande GROOVE pour changer par section)`}>
+                                    <select value={groove.template} onChange={(e) => setGroove({ ...groove, template: e.target.value })} className="bg-transparent font-bold text-[#5d4037] outline-none text-xs cursor-pointer h-full py-0 max-w-[110px]">
+                                        {GROOVE_TEMPLATES.map(t => <option key={t.id} value={t.id} className="bg-[#e5c4a1]">{t.name}</option>)}
+                                    </select>
+                                    {GROOVE_TEMPLATES.find(t => t.id === groove.template)?.usesSwing && (
+                                        <select value={groove.swing} onChange={(e) => setGroove({ ...groove, swing: parseInt(e.target.value, 10) })} className="bg-transparent font-bold text-[#5d4037] outline-none text-xs cursor-pointer h-full py-0">
+                                            {[54, 58, 62, 66, 70, 75].map(v => <option key={v} value={v} className="bg-[#e5c4a1]">{v}%</option>)}
+                                        </select>
+                                    )}
+                                </div>
+
+                                {/* Boucle d'entraînement */}
+                                <div className={`flex items-center gap-0 rounded border shadow-sm h-7 ml-1 overflow-hidden text-xs ${loopRegion ? 'bg-[#800020] border-[#800020] text-white' : 'bg-[#e5c4a1] border-[#cbb094] text-[#5d4037]'}`}>
+                                    <button
+                                        onClick={() => { if (loopRegion) setLoopRegion(null); }}
+                                        className={`h-full px-2 flex items-center gap-1 font-medium ${loopRegion ? 'hover:bg-[#600018]' : 'cursor-help'}`}
+                                        data-tooltip={loopRegion ? `Retirer la boucle` : `Maj + glisser sur la partition\npour choisir une boucle\n(Maj + clic pour la retirer)`}
+                                    >
+                                        <Repeat size={12} /> {loopRegion ? `×${loopRepetition}` : 'Boucle'}
+                                    </button>
+                                    {loopRegion && (
+                                        <>
+                                            <button onClick={() => audioEngine.markLoopMiss()} className="h-full px-2 border-l border-white/30 hover:bg-[#600018] font-medium" data-tooltip={`Tour raté :\nle compte des tours propres repart de zéro`}>Raté</button>
+                                            <button onClick={() => setIsTempoRampOn(!isTempoRampOn)} className={`h-full px-2 border-l border-white/30 flex items-center gap-1 font-medium ${isTempoRampOn ? 'bg-[#D4AC0D] text-[#5d4037]' : 'hover:bg-[#600018]'}`} data-tooltip={`Accélération progressive :\n+${Math.round(tempoRamp.step * 100)}% tous les ${tempoRamp.everyN} tours propres\njusqu'à x${tempoRamp.targetSpeed}`}>
+                                                <Gauge size={12} /> Accél.
+                                            </button>
+                                            {isTempoRampOn && (
+                                                <div className="flex items-center gap-1 px-2 h-full bg-[#e5c4a1] text-[#5d4037]">
+                                                    <select value={tempoRamp.everyN} onChange={(e) => setTempoRamp({ ...tempoRamp, everyN: parseInt(e.target.value, 10) })} className="bg-transparent font-bold outline-none text-xs cursor-pointer" title="Tours propres par palier">
+                                                        {[1, 2, 3, 4, 5, 8].map(n => <option key={n} value={n} className="bg-[#e5c4a1]">{n} tours</option>)}
+                                                    </select>
+                                                    <select value={tempoRamp.step} onChange={(e) => setTempoRamp({ ...tempoRamp, step: parseFloat(e.target.value) })} className="bg-transparent font-bold outline-none text-xs cursor-pointer" title="Palier de vitesse">
+                                                        {[0.02, 0.05, 0.1].map(v => <option key={v} value={v} className="bg-[#e5c4a1]">+{Math.round(v * 100)}%</option>)}
+                                                    </select>
+                                                    <select value={tempoRamp.targetSpeed} onChange={(e) => setTempoRamp({ ...tempoRamp, targetSpeed: parseFloat(e.target.value) })} className="bg-transparent font-bold outline-none text-xs cursor-pointer" title="Vitesse visée">
+                                                        {[0.75, 1, 1.25, 1.5].map(v => <option key={v} value={v} className="bg-[#e5c4a1]">→ x{v}</option>)}
+                                                    </select>
+                                                </div>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+
                                 {/* Mode Doigté */}
                                 <button 
                                     onClick={() => setFingeringMode(fingeringMode === 'auto' ? 'manual' : 'auto')}
@@ -2214,6 +2969,26 @@ export default function App() {
                                 </button>
                                 {isListening && <div className="hidden">Log: {voiceLog}</div>}
 
+                                {/* Clavier d'ordinateur */}
+                                <div className="flex items-center gap-0 bg-[#e5c4a1] rounded border border-[#cbb094] shadow-sm h-7 overflow-hidden text-xs text-[#5d4037]">
+                                    <button
+                                        onClick={async () => {
+                                            await audioEngine.init();
+                                            if (audioEngine.ctx?.state === 'suspended') await audioEngine.ctx.resume();
+                                            heldKeysRef.current.clear();
+                                            setIsKeyboardPlay(!isKeyboardPlay);
+                                        }}
+                                        className={`h-full px-2 flex items-center gap-1 font-medium transition-colors ${isKeyboardPlay ? 'bg-[#8d6e63] text-[#e5c4a1]' : 'hover:bg-[#cbb094]'}`}
+                                        data-tooltip={`Jouer au clavier d'ordinateur :\nune touche par corde (voir les cordes ci-dessous),\ntouches tenues ensemble = accord.\nLe curseur avance au relâchement.\nTouches modifiables dans l'onglet Accordage`}
+                                    >
+                                        <Keyboard size={12} />
+                                        <span>Clavier</span>
+                                    </button>
+                                    <select value={keyboardAdvance} onChange={(e) => saveKeyboard(keyboardLayout, e.target.value as KeyboardAdvance)} className="bg-transparent font-bold outline-none text-xs cursor-pointer h-full px-1 border-l border-[#cbb094]" title="Avance du curseur après chaque note ou accord">
+                                        {KEYBOARD_ADVANCES.map(a => <option key={a.symbol} value={a.symbol} className="bg-[#e5c4a1]">{a.symbol} {a.name}</option>)}
+                                    </select>
+                                </div>
+
                                 {/* MIDI Input */}
                                 <button
                                     onClick={async () => {
@@ -2226,7 +3001,74 @@ export default function App() {
                                     <Piano size={12} />
                                     <span>MIDI</span>
                                 </button>
+                                <div className="flex items-center gap-0 bg-[#e5c4a1] rounded border border-[#cbb094] shadow-sm h-7 overflow-hidden text-xs text-[#5d4037]">
+                                    {isMidiEnabled && (
+                                        <button
+                                            onClick={() => isTakeRecording ? stopPlayback() : startTake()}
+                                            disabled={isMicTake || (!isTakeRecording && playbackState !== PlaybackState.STOPPED)}
+                                            className={`h-full px-2 flex items-center gap-1 font-medium transition-colors disabled:opacity-50 ${isTakeRecording && !isMicTake ? 'bg-red-600 text-white' : 'hover:bg-[#cbb094]'}`}
+                                            data-tooltip={`Prise en temps réel :\nla lecture part du curseur avec le décompte,\njouez sur le clavier MIDI puis arrêtez.\nLes accords (touches ensemble) sont écrits avec =`}
+                                        >
+                                            {isTakeRecording && !isMicTake ? <Square size={12} /> : <Circle size={12} className="fill-red-600 text-red-600" />}
+                                            <span>{isTakeRecording && !isMicTake ? 'Stop' : 'Rec'}</span>
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => isMicTake ? stopPlayback() : startTake('mic')}
+                                        disabled={(isTakeRecording && !isMicTake) || (!isTakeRecording && (playbackState !== PlaybackState.STOPPED || isTranscribing))}
+                                        className={`h-full px-2 flex items-center gap-1 font-medium transition-colors disabled:opacity-50 ${isMidiEnabled ? 'border-l border-[#cbb094]' : ''} ${isMicTake ? 'bg-red-600 text-white' : 'hover:bg-[#cbb094]'}`}
+                                        data-tooltip={`Prise au micro :\njouez le ngoni devant le micro (casque conseillé,\nle métronome ne doit pas être capté).\nÀ l'arrêt, les notes sont reconnues d'après l'accordage\n(une note par attaque) puis quantifiées`}
+                                    >
+                                        {isMicTake ? <Square size={12} /> : <Mic size={12} />}
+                                        <span>{isMicTake ? 'Stop' : 'Micro'}</span>
+                                    </button>
+                                    <select value={recordGrid} onChange={(e) => setRecordGrid(e.target.value as RecordGrid)} disabled={isTakeRecording} className="bg-transparent font-bold outline-none text-xs cursor-pointer h-full px-1 border-l border-[#cbb094]" title="Grille de quantification">
+                                        {RECORD_GRIDS.map(g => <option key={g.id} value={g.id} className="bg-[#e5c4a1]">{g.name}</option>)}
+                                    </select>
+                                    <select value={takeMode} onChange={(e) => setTakeMode(e.target.value as TakeMode)} disabled={isTakeRecording} className="bg-transparent font-bold outline-none text-xs cursor-pointer h-full px-1 border-l border-[#cbb094]" title="Ajout de la prise au code">
+                                        <option value="merge" className="bg-[#e5c4a1]">Fusionner</option>
+                                        <option value="overwrite" className="bg-[#e5c4a1]">Remplacer</option>
+                                    </select>
+                                </div>
                             </div>
+
+                            {/* Row 3: Code Diagnostics (only when the parser reports problems) */}
+                            {codeDiagnostics.length > 0 && (
+                                <div className="w-full max-w-3xl mx-auto">
+                                    <button
+                                        onClick={() => setIsDiagnosticsOpen(!isDiagnosticsOpen)}
+                                        className={`w-full flex items-center justify-center gap-1 px-2 h-6 rounded border font-bold text-xs transition-colors ${codeDiagnostics.some(d => d.severity === 'error') ? 'bg-red-100 text-red-800 border-red-300 hover:bg-red-200' : 'bg-amber-100 text-amber-800 border-amber-300 hover:bg-amber-200'}`}
+                                    >
+                                        <AlertTriangle size={12} />
+                                        <span>{codeDiagnostics.length} problème(s) dans le code</span>
+                                        <ChevronDown size={12} className={`transition-transform ${isDiagnosticsOpen ? 'rotate-180' : ''}`} />
+                                    </button>
+                                    {isDiagnosticsOpen && (
+                                        <div className="mt-1 max-h-32 overflow-y-auto custom-scrollbar flex flex-col gap-0.5 bg-[#e5c4a1] border border-[#cbb094] rounded p-1">
+                                            {codeDiagnostics.map((d, i) => {
+                                                const line = code.split('\n')[d.lineIndex] || '';
+                                                const underline = d.severity === 'error' ? 'decoration-red-600' : 'decoration-amber-500';
+                                                return (
+                                                    <div key={`${d.lineIndex}-${d.column}-${i}`} className="flex items-center gap-2 text-[10px] text-[#5d4037] px-1">
+                                                        <span className="font-bold text-[#8d6e63] w-8 shrink-0">L{d.lineIndex + 1}</span>
+                                                        <code className="font-mono whitespace-pre bg-[#dcc0a3] px-1 rounded shrink-0">
+                                                            {line.slice(0, d.column)}
+                                                            <span className={`underline decoration-wavy ${underline}`}>{line.slice(d.column, d.column + d.length)}</span>
+                                                            {line.slice(d.column + d.length)}
+                                                        </code>
+                                                        <span className="flex-1 truncate" title={d.message}>{d.message}</span>
+                                                        {d.suggestion !== undefined && (
+                                                            <button onClick={() => handleApplyDiagnosticFix(d)} className="px-2 py-0.5 bg-[#8d6e63] text-white rounded font-bold hover:bg-[#6d4c41] shrink-0" data-tooltip={d.suggestion.trim()}>
+                                                                Corriger
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                        </div>
                        
                        {/* Full Width Visualizer Container */}
@@ -2239,6 +3081,7 @@ export default function App() {
                                     fingeringMode={fingeringMode}
                                     activeStringId={activeVoiceStringId}
                                     playbackFeedback={playbackFeedback}
+                                    keyLabels={isKeyboardPlay ? Object.fromEntries(Object.entries(keyboardLayout).map(([code, stringId]) => [stringId, keyLabel(code, keyboardLayoutMap)])) : undefined}
                                 />
                            </div>
 
@@ -2263,6 +3106,9 @@ export default function App() {
                                     onSeek={handleSeekAndClear}
                                     onNoteContextMenu={handleNoteContextMenu}
                                     onMultiSelectionEnd={handleMultiSelectionFinished}
+                                    loopRegion={loopRegion}
+                                    onLoopSelect={setLoopRegion}
+                                    confidence={transcriptionConfidence}
                                 />
                            </div>
                        </div>
@@ -2271,21 +3117,54 @@ export default function App() {
 
               {mainTab === 'media' && (
                   <div className="flex flex-col items-center justify-center h-full gap-8 animate-in fade-in duration-300 p-8 text-center">
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl">
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-6xl">
                             <div className="bg-[#dcc0a3]/60 p-6 rounded-xl border border-[#cbb094] shadow-md flex flex-col items-center gap-4 hover:scale-105 transition-transform backdrop-blur-md">
                                 <div className="w-16 h-16 bg-[#e5c4a1] rounded-full flex items-center justify-center text-[#8d6e63] shadow-inner"><FileText size={32}/></div>
                                 <h3 className="font-bold text-lg">Partition PDF</h3>
                                 <p className="text-sm opacity-80">Format A4 imprimable avec diagrammes et annotations.</p>
+                                <label className="flex items-center gap-2 text-xs font-bold text-[#5d4037] cursor-pointer">
+                                    <input type="checkbox" checked={pdfWithToc} onChange={(e) => setPdfWithToc(e.target.checked)} className="accent-[#8d6e63]" />
+                                    Sommaire des sections (TXT)
+                                </label>
                                 <button onClick={handleDownloadPDF} className="mt-auto px-6 py-2 bg-[#8d6e63] text-white font-bold rounded shadow hover:bg-[#6d4c41] flex items-center gap-2"><Download size={16}/> Télécharger PDF</button>
                             </div>
+                            <div className="bg-[#dcc0a3]/60 p-6 rounded-xl border border-[#cbb094] shadow-md flex flex-col items-center gap-4 hover:scale-105 transition-transform backdrop-blur-md">
+                                <div className="w-16 h-16 bg-[#e5c4a1] rounded-full flex items-center justify-center text-[#8d6e63] shadow-inner"><Music size={32}/></div>
+                                <h3 className="font-bold text-lg">Partition MusicXML</h3>
+                                <p className="text-sm opacity-80">Pour MuseScore, Finale, Sibelius… (notes réelles de la gamme, doigtés et textes).</p>
+                                <button onClick={handleExportMusicXML} className="mt-auto px-6 py-2 bg-[#8d6e63] text-white font-bold rounded shadow hover:bg-[#6d4c41] flex items-center gap-2"><FileDown size={16}/> Télécharger MusicXML</button>
+                            </div>
                             <div className="bg-[#dcc0a3]/60 p-6 rounded-xl border border-[#cbb094] shadow-md flex flex-col items-center gap-4 hover:scale-105 transition-transform backdrop-blur-md">
                                 <div className="w-16 h-16 bg-[#e5c4a1] rounded-full flex items-center justify-center text-[#8d6e63] shadow-inner"><Headphones size={32}/></div>
                                 <h3 className="font-bold text-lg">Export Audio</h3>
                                 <p className="text-sm opacity-80">Fichier MP3 haute qualité (320kbps).</p>
+                                <div className="flex flex-col gap-1 w-full text-xs font-bold text-[#5d4037] bg-[#e5c4a1] p-2 rounded">
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input type="checkbox" checked={!!exportRenderOptions.includeMetronome} onChange={(e) => setExportRenderOptions({ ...exportRenderOptions, includeMetronome: e.target.checked })} className="accent-[#8d6e63]" />
+                                        Inclure le métronome (shaker)
+                                    </label>
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input type="checkbox" checked={!!exportRenderOptions.countIn} onChange={(e) => setExportRenderOptions({ ...exportRenderOptions, countIn: e.target.checked })} className="accent-[#8d6e63]" />
+                                        Décompte (réglages du métronome)
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                        <span>Fin :</span>
+                                        <select value={exportRenderOptions.tailSeconds} onChange={(e) => setExportRenderOptions({ ...exportRenderOptions, tailSeconds: parseFloat(e.target.value) })} className="bg-transparent outline-none cursor-pointer">
+                                            <option value={1} className="bg-[#e5c4a1]">1 s</option>
+                                            <option value={3} className="bg-[#e5c4a1]">3 s</option>
+                                            <option value={5} className="bg-[#e5c4a1]">5 s</option>
+                                            <option value={8} className="bg-[#e5c4a1]">8 s</option>
+                                        </select>
+                                    </div>
+                                    <p className="text-[10px] text-[#8d6e63] italic font-normal leading-tight">Options appliquées aussi à l'export vidéo.</p>
+                                </div>
                                 <button onClick={handleExportAudio} disabled={isExporting} className="mt-auto px-6 py-2 bg-[#8d6e63] text-white font-bold rounded shadow hover:bg-[#6d4c41] flex items-center gap-2 disabled:opacity-50">
                                     {isExporting ? <Loader2 size={16} className="animate-spin"/> : <Mic size={16}/>}
                                     <span>Télécharger MP3</span>
                                 </button>
+                                <button onClick={handleExportMidi} disabled={isExporting} className="px-4 py-1 bg-[#e5c4a1] text-[#5d4037] border border-[#8d6e63] text-xs font-bold rounded shadow hover:bg-[#dcc0a3] flex items-center gap-2 disabled:opacity-50">
+                                    <Piano size={14}/> <span>Télécharger MIDI (2 pistes G/D)</span>
+                                </button>
                             </div>
                             <div className="bg-[#dcc0a3]/60 p-6 rounded-xl border border-[#cbb094] shadow-md flex flex-col items-center gap-4 hover:scale-105 transition-transform backdrop-blur-md">
                                 <div className="w-16 h-16 bg-[#e5c4a1] rounded-full flex items-center justify-center text-[#8d6e63] shadow-inner"><Video size={32}/></div>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { STRING_CONFIGS } from '../constants';
+import { Hand, KeyboardLayout, Tuning } from '../types';
+import { keyLabel, keyForString } from '../utils/keyboard';
+import { RotateCcw } from 'lucide-react';
+
+interface KeyboardMappingProps {
+  layout: KeyboardLayout;
+  onReset: () => void;
+  learnStringId: string | null;
+  onLearn: (stringId: string | null) => void;
+  layoutMap: Map<string, string> | null;
+  tuning: Tuning;
+}
+
+const KeyboardMapping: React.FC<KeyboardMappingProps> = ({ layout, onReset, learnStringId, onLearn, layoutMap, tuning }) => (
+    <div className="flex flex-col gap-3 text-xs text-[#5d4037]">
+        <p className="text-center text-[10px] italic opacity-80">
+            Cliquez sur « Changer » puis appuyez sur la nouvelle touche (Échap annule). Les touches suivent leur position sur le clavier, quelle que soit sa disposition.
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+            {(['G', 'D'] as Hand[]).map(hand => (
+                <div key={hand} className="flex flex-col gap-1">
+                    {STRING_CONFIGS.filter(s => s.hand === hand).sort((a, b) => a.index - b.index).map(str => {
+                        const code = keyForString(layout, str.stringId);
+                        const isLearning = learnStringId === str.stringId;
+                        return (
+                            <div key={str.stringId} className="flex items-center gap-2">
+                                <span className="font-black w-6">{str.stringId}</span>
+                                <span className="w-8 opacity-80">{tuning[str.stringId]}</span>
+                                <kbd className="flex-1 text-center font-bold bg-[#e5c4a1] border border-[#cbb094] rounded px-1 py-0.5">{code ? keyLabel(code, layoutMap) : '—'}</kbd>
+                                <button
+                                    onClick={() => onLearn(isLearning ? null : str.stringId)}
+                                    className={`px-2 py-0.5 rounded border text-[10px] font-bold transition-colors ${isLearning ? 'bg-red-600 text-white border-red-600 animate-pulse' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`}
+                                >
+                                    {isLearning ? 'Appuyez…' : 'Changer'}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+        <div className="flex justify-center">
+            <button onClick={onReset} className="flex items-center gap-1 px-2 py-0.5 rounded border border-[#cbb094] bg-[#e5c4a1] hover:bg-[#dcc0a3] font-bold">
+                <RotateCcw size={12} /> Disposition par défaut
+            </button>
+        </div>
+    </div>
+);
+
+export default KeyboardMapping;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { STRING_CONFIGS, MIDI_ACTIONS } from '../constants';
+import { Hand, MidiLearnTarget, MidiMappingProfile, Tuning } from '../types';
+import { midiToNoteName } from '../utils/midi';
+import { forgetString, forgetAction, isPresetProfile } from '../utils/midiMapping';
+import { Copy, Trash2, X } from 'lucide-react';
+
+interface MidiMappingProps {
+  profiles: MidiMappingProfile[];
+  profile: MidiMappingProfile;
+  onSelect: (id: string) => void;
+  onChange: (profile: MidiMappingProfile) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  learnTarget: MidiLearnTarget | null;
+  onLearn: (target: MidiLearnTarget | null) => void;
+  tuning: Tuning;
+  isMidiEnabled: boolean;
+}
+
+const VELOCITY_THRESHOLDS = [20, 30, 40, 50, 90, 100, 110, 120];
+
+const MidiMapping: React.FC<MidiMappingProps> = ({ profiles, profile, onSelect, onChange, onDuplicate, onDelete, learnTarget, onLearn, tuning, isMidiEnabled }) => {
+  const targetKey = (target: MidiLearnTarget) => target.kind === 'string' ? `string:${target.stringId}` : `action:${target.action}`;
+  const isLearning = (target: MidiLearnTarget) => !!learnTarget && targetKey(learnTarget) === targetKey(target);
+
+  // Bouton "Apprendre" : un second clic annule
+  const renderLearn = (target: MidiLearnTarget) => (
+      <button
+          onClick={() => onLearn(isLearning(target) ? null : target)}
+          disabled={!isMidiEnabled}
+          className={`px-2 py-0.5 rounded border text-[10px] font-bold transition-colors disabled:opacity-40 ${isLearning(target) ? 'bg-red-600 text-white border-red-600 animate-pulse' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`}
+      >
+          {isLearning(target) ? 'En attente…' : 'Apprendre'}
+      </button>
+  );
+
+  const noteForString = (stringId: string) => {
+      const entry = Object.entries(profile.notes).find(([, id]) => id === stringId);
+      if (entry) return `${midiToNoteName(Number(entry[0]))} (${entry[0]})`;
+      return profile.matchTuning ? `accordage (${tuning[stringId]})` : '—';
+  };
+
+  const selectClass = "bg-[#e5c4a1] border border-[#cbb094] rounded px-1 py-0.5 font-bold outline-none";
+
+  return (
+      <div className="flex flex-col gap-3 text-xs text-[#5d4037]">
+          {/* Profil */}
+          <div className="flex flex-wrap items-center justify-center gap-2">
+              <select value={profile.id} onChange={(e) => onSelect(e.target.value)} className={selectClass}>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <input value={profile.name} onChange={(e) => onChange({ ...profile, name: e.target.value })} className="bg-[#e5c4a1] border border-[#cbb094] rounded px-2 py-0.5 w-44 outline-none" title="Nom du profil" />
+              <button onClick={onDuplicate} className="p-1 rounded hover:bg-[#cbb094]" title="Dupliquer le profil"><Copy size={14} /></button>
+              <button onClick={onDelete} disabled={isPresetProfile(profile.id)} className="p-1 rounded hover:bg-[#cbb094] disabled:opacity-40" title={isPresetProfile(profile.id) ? "Les profils fournis ne peuvent pas être supprimés" : "Supprimer le profil"}><Trash2 size={14} /></button>
+          </div>
+          {!isMidiEnabled && <p className="text-center text-[10px] italic opacity-80">Activez le bouton MIDI de l'éditeur pour apprendre des touches et des contrôleurs.</p>}
+
+          {/* Réglages d'entrée */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="flex flex-col gap-1">
+                  <span className="font-bold">Canal</span>
+                  <select value={profile.channel ?? 0} onChange={(e) => onChange({ ...profile, channel: parseInt(e.target.value, 10) || null })} className={selectClass}>
+                      <option value={0}>Tous</option>
+                      {Array.from({ length: 16 }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}</option>)}
+                  </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                  <span className="font-bold">Décalage d'octave</span>
+                  <select value={profile.octaveShift} onChange={(e) => onChange({ ...profile, octaveShift: parseInt(e.target.value, 10) })} className={selectClass}>
+                      {[-3, -2, -1, 0, 1, 2, 3].map(o => <option key={o} value={o}>{o > 0 ? `+${o}` : o}</option>)}
+                  </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                  <span className="font-bold">Accent (&gt;) dès</span>
+                  <select value={profile.accentVelocity ?? 0} onChange={(e) => onChange({ ...profile, accentVelocity: parseInt(e.target.value, 10) || null })} className={selectClass}>
+                      <option value={0}>Jamais</option>
+                      {VELOCITY_THRESHOLDS.filter(v => v >= 90).map(v => <option key={v} value={v}>vélocité {v}</option>)}
+                  </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                  <span className="font-bold">Ghost (g) jusqu'à</span>
+                  <select value={profile.ghostVelocity ?? 0} onChange={(e) => onChange({ ...profile, ghostVelocity: parseInt(e.target.value, 10) || null })} className={selectClass}>
+                      <option value={0}>Jamais</option>
+                      {VELOCITY_THRESHOLDS.filter(v => v <= 50).map(v => <option key={v} value={v}>vélocité {v}</option>)}
+                  </select>
+              </label>
+          </div>
+          <label className="flex items-center justify-center gap-2 font-bold cursor-pointer">
+              <input type="checkbox" checked={profile.matchTuning} onChange={(e) => onChange({ ...profile, matchTuning: e.target.checked })} className="accent-[#8d6e63]" />
+              Les touches non apprises jouent la corde accordée sur leur hauteur
+          </label>
+
+          {/* Notes -> cordes */}
+          <div className="grid grid-cols-2 gap-4">
+              {(['G', 'D'] as Hand[]).map(hand => (
+                  <div key={hand} className="flex flex-col gap-1">
+                      {STRING_CONFIGS.filter(s => s.hand === hand).sort((a, b) => a.index - b.index).map(str => (
+                          <div key={str.stringId} className="flex items-center gap-2">
+                              <span className="font-black w-6">{str.stringId}</span>
+                              <span className="flex-1 truncate">{noteForString(str.stringId)}</span>
+                              {renderLearn({ kind: 'string', stringId: str.stringId })}
+                              {Object.values(profile.notes).includes(str.stringId) && (
+                                  <button onClick={() => onChange(forgetString(profile, str.stringId))} className="p-0.5 rounded hover:bg-[#cbb094]" title="Oublier"><X size={12} /></button>
+                              )}
+                          </div>
+                      ))}
+                  </div>
+              ))}
+          </div>
+
+          {/* CC -> actions */}
+          <div className="flex flex-col gap-1 border-t border-[#cbb094]/50 pt-2">
+              <span className="font-bold">Contrôleurs (CC, déclenchés à partir de 64)</span>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+                  {MIDI_ACTIONS.map(a => {
+                      const cc = Object.entries(profile.controls).find(([, action]) => action === a.id)?.[0];
+                      return (
+                          <div key={a.id} className="flex items-center gap-2">
+                              <span className="flex-1">{a.name}</span>
+                              <span className="font-bold w-12 text-right">{cc !== undefined ? `CC ${cc}` : '—'}</span>
+                              {renderLearn({ kind: 'action', action: a.id })}
+                              {cc !== undefined && (
+                                  <button onClick={() => onChange(forgetAction(profile, a.id))} className="p-0.5 rounded hover:bg-[#cbb094]" title="Oublier"><X size={12} /></button>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+          </div>
+      </div>
+  );
+};
+
+export default MidiMapping;
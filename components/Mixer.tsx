@@ -0,0 +1,67 @@
+import React from 'react';
+import { STRING_CONFIGS, NOTE_COLORS } from '../constants';
+import { Hand, MixerChannel, MixerState, Tuning } from '../types';
+import { createDefaultMixer } from '../utils/mixer';
+import { RotateCcw } from 'lucide-react';
+
+interface MixerProps {
+  mixer: MixerState;
+  onChange: (mixer: MixerState) => void;
+  tuning: Tuning;
+}
+
+const HAND_LABELS: Record<Hand, string> = { G: 'Main Gauche (G)', D: 'Main Droite (D)' };
+
+const Mixer: React.FC<MixerProps> = ({ mixer, onChange, tuning }) => {
+  const updateString = (stringId: string, patch: Partial<MixerChannel>) =>
+      onChange({ ...mixer, strings: { ...mixer.strings, [stringId]: { ...mixer.strings[stringId], ...patch } } });
+
+  const updateHand = (hand: Hand, patch: Partial<MixerChannel>) =>
+      onChange({ ...mixer, hands: { ...mixer.hands, [hand]: { ...mixer.hands[hand], ...patch } } });
+
+  const getColor = (stringId: string) => {
+      const note = tuning[stringId];
+      return note ? NOTE_COLORS[note.charAt(0).toUpperCase()] || '#ccc' : '#ccc';
+  };
+
+  // Boutons Mute / Solo d'une tranche
+  const renderToggles = (channel: MixerChannel, update: (patch: Partial<MixerChannel>) => void) => (
+      <div className="flex gap-0.5">
+          <button onClick={() => update({ mute: !channel.mute })} className={`w-5 h-5 rounded text-[9px] font-black border ${channel.mute ? 'bg-[#800020] text-white border-[#800020]' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`} title="Muet">M</button>
+          <button onClick={() => update({ solo: !channel.solo })} className={`w-5 h-5 rounded text-[9px] font-black border ${channel.solo ? 'bg-[#D4AC0D] text-[#5d4037] border-[#D4AC0D]' : 'bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3]'}`} title="Solo">S</button>
+      </div>
+  );
+
+  return (
+      <div className="flex flex-col gap-2 text-xs text-[#5d4037]">
+          <div className="grid grid-cols-2 gap-4">
+              {(['G', 'D'] as Hand[]).map(hand => (
+                  <div key={hand} className="flex flex-col gap-1">
+                      {/* Tranche de la main */}
+                      <div className="flex items-center gap-2 border-b-2 border-[#5d4037]/20 pb-1">
+                          <span className="font-black flex-1">{HAND_LABELS[hand]}</span>
+                          {renderToggles(mixer.hands[hand], patch => updateHand(hand, patch))}
+                          <input type="range" min={0} max={2} step={0.05} value={mixer.hands[hand].gain} onChange={(e) => updateHand(hand, { gain: parseFloat(e.target.value) })} className="w-20 accent-[#8d6e63]" title={`Volume ${Math.round(mixer.hands[hand].gain * 100)}%`} />
+                      </div>
+                      {/* Tranches des cordes */}
+                      {STRING_CONFIGS.filter(s => s.hand === hand).sort((a, b) => a.index - b.index).map(str => {
+                          const channel = mixer.strings[str.stringId];
+                          return (
+                              <div key={str.stringId} className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full flex-none shadow" style={{ backgroundColor: getColor(str.stringId) }}></span>
+                                  <span className="font-bold w-14">{str.stringId} · {tuning[str.stringId]}</span>
+                                  {renderToggles(channel, patch => updateString(str.stringId, patch))}
+                                  <input type="range" min={0} max={2} step={0.05} value={channel.gain} onChange={(e) => updateString(str.stringId, { gain: parseFloat(e.target.value) })} className="flex-1 min-w-0 accent-[#8d6e63]" title={`Volume ${Math.round(channel.gain * 100)}%`} />
+                                  <input type="range" min={-1} max={1} step={0.05} value={channel.pan} onChange={(e) => updateString(str.stringId, { pan: parseFloat(e.target.value) })} className="w-14 accent-[#A67C52]" title={`Panoramique ${channel.pan < 0 ? 'G' : 'D'} ${Math.round(Math.abs(channel.pan) * 100)}`} />
+                              </div>
+                          );
+                      })}
+                  </div>
+              ))}
+          </div>
+          <button onClick={() => onChange(createDefaultMixer())} className="self-center flex items-center gap-1 px-2 py-1 rounded shadow border bg-[#e5c4a1] border-[#cbb094] hover:bg-[#dcc0a3] font-medium"><RotateCcw size={12} /> Réinitialiser le mixeur</button>
+      </div>
+  );
+};
+
+export default Mixer;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { STRING_CONFIGS, NOTE_COLORS } from '../constants';
-import { Tuning } from '../types';
+import { Tuning, Meter } from '../types';
+import { buildMeasureMap } from '../utils/meter';
 import { ArrowRight, Trash2, Wand2, Hand, MousePointer2, ChevronsUp, ChevronUp, Minus } from 'lucide-react';
 
 interface SequencerProps {
@@ -8,6 +9,7 @@ interface SequencerProps {
   tuning: Tuning;
   rhythmMode: 'binary' | 'ternary';
   onRhythmModeChange: (mode: 'binary' | 'ternary') => void;
+  meter?: Meter; // Mesure en cours (MESURE) : fixe le nombre de pas de la grille
 }
 
 interface NoteCell {
@@ -15,11 +17,15 @@ interface NoteCell {
     durationCategory: 'fast' | 'medium' | 'slow';
 }
 
-const Sequencer: React.FC<SequencerProps> = ({ onInsert, tuning, rhythmMode, onRhythmModeChange }) => {
+const Sequencer: React.FC<SequencerProps> = ({ onInsert, tuning, rhythmMode, onRhythmModeChange, meter }) => {
   // Config
-  const steps = rhythmMode === 'binary' ? 16 : 12; // 16 steps (Binary) or 12 steps (Ternary)
-  const fastNote = rhythmMode === 'binary' ? '♬' : '🎶';
-  const fastNoteLabel = rhythmMode === 'binary' ? 'Double' : 'Triolet';
+  // One measure of the shared measure map (4/4 by default): 16 steps (Binary) or 12 steps (Ternary)
+  const measure = buildMeasureMap([], meter || { numerator: 4, denominator: 4 })[0];
+  // Triplet steps only when they fit the beat (not in 6/8, 12/8...)
+  const stepTicks = rhythmMode === 'ternary' && measure.beatTicks % 4 === 0 ? 4 : 3;
+  const steps = Math.max(1, Math.round(measure.measureTicks / stepTicks));
+  const fastNote = stepTicks === 3 ? '♬' : '🎶';
+  const fastNoteLabel = stepTicks === 3 ? 'Double' : 'Triolet';
   
   // Store finger choice and duration
   const [grid, setGrid] = useState<Record<string, (NoteCell | null)[]>>({});
@@ -32,7 +38,7 @@ const Sequencer: React.FC<SequencerProps> = ({ onInsert, tuning, rhythmMode, onR
           newGrid[s.stringId] = Array(steps).fill(null);
       });
       setGrid(newGrid);
-  }, [rhythmMode, steps]);
+  }, [rhythmMode, steps, stepTicks]);
 
   const handleStepClick = (e: React.MouseEvent, stringId: string, stepIndex: number, button: 'left' | 'right') => {
       e.preventDefault();
@@ -303,7 +309,7 @@ const Sequencer: React.FC<SequencerProps> = ({ onInsert, tuning, rhythmMode, onR
             {/* Time Step Rows */}
             <div className="flex-1 pb-4">
                 {Array.from({ length: steps }).map((_, stepIdx) => {
-                    const isBeat = stepIdx % 4 === 0;
+                    const isBeat = (stepIdx * stepTicks) % measure.beatTicks === 0;
                     
                     return (
                         <div 
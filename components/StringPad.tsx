@@ -9,9 +9,10 @@ interface StringPadProps {
   fingeringMode: 'auto' | 'manual';
   activeStringId?: string | null;
   playbackFeedback?: Record<string, number>; // New prop: StringID -> Duration (ticks)
+  keyLabels?: Record<string, string>; // Mode clavier : touche de chaque corde
 }
 
-const StringPad: React.FC<StringPadProps> = ({ onInsert, tuning, fingeringMode, activeStringId, playbackFeedback = {} }) => {
+const StringPad: React.FC<StringPadProps> = ({ onInsert, tuning, fingeringMode, activeStringId, playbackFeedback = {}, keyLabels }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [width, setWidth] = useState(0);
 
@@ -224,6 +225,12 @@ const StringPad: React.FC<StringPadProps> = ({ onInsert, tuning, fingeringMode,
                         <div className="absolute inset-0 bg-white opacity-0 group-hover/btn:opacity-40 group-active/btn:opacity-60 transition-opacity pointer-events-none"></div>
                         
                         <span className={`absolute top-1 left-0 right-0 text-[8px] text-center font-bold z-10 ${highlight1_2 ? 'text-[#5d4037] opacity-100' : 'text-[#5d4037] opacity-50'}`}>1/2</span>
+                        {/* Touche du clavier d'ordinateur (mode clavier) */}
+                        {keyLabels?.[s.stringId] && (
+                            <kbd className="absolute bottom-0.5 left-1/2 -translate-x-1/2 min-w-[16px] px-0.5 rounded border border-[#5d4037]/40 bg-[#f5e6d3] text-[9px] md:text-[10px] font-black text-[#5d4037] z-20 pointer-events-none leading-tight">
+                                {keyLabels[s.stringId]}
+                            </kbd>
+                        )}
                     </button>
 
                     {/* BUTTON 1 (Bottom) */}
@@ -1,8 +1,9 @@
 
 import React, { useRef, useEffect, forwardRef, useImperativeHandle, useState } from 'react';
-import { ParsedNote, Tuning, PlaybackState, TICKS_COUNT_IN, NoteConfig } from '../types';
-import { STRING_CONFIGS, NOTE_COLORS } from '../constants';
+import { ParsedNote, Tuning, LoopRegion, PlaybackState, TICKS_COUNT_IN, TICKS_QUARTER, NoteConfig, DEFAULT_VELOCITY } from '../types';
+import { STRING_CONFIGS, NOTE_COLORS, GROOVE_TEMPLATES } from '../constants';
 import { audioEngine } from '../utils/audio';
+import { buildMeasureMap, beatsInRange, meterFromRhythmMode } from '../utils/meter';
 
 interface VisualizerProps {
   data: ParsedNote[];
@@ -21,6 +22,9 @@ interface VisualizerProps {
   onSeek?: (tick: number) => void;
   onNoteContextMenu?: (note: ParsedNote, x: number, y: number) => void;
   onMultiSelectionEnd?: (selectedIds: string[], x: number, y: number) => void;
+  loopRegion?: LoopRegion | null;
+  onLoopSelect?: (region: LoopRegion | null) => void; // Maj + glisser sur le fond (Maj + clic : retire la boucle)
+  confidence?: Record<string, number> | null; // Transcription audio : confiance (0 à 1) par "tick-corde"
 }
 
 export interface VisualizerHandle {
@@ -37,13 +41,14 @@ const PLAYHEAD_OFFSET_TICKS = 12;
 const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({ 
   data, currentTick, tuning, rhythmMode, playbackState, isExporting,
   onNoteClick, onNoteDrag, onNoteHover, selectedNoteId, selectedNoteIds = [],
-  onBackgroundClick, onDeleteNote, onSeek, onNoteContextMenu, onMultiSelectionEnd 
+  onBackgroundClick, onDeleteNote, onSeek, onNoteContextMenu, onMultiSelectionEnd,
+  loopRegion, onLoopSelect, confidence
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   const interactionRef = useRef<{
-    mode: 'IDLE' | 'DRAG_NOTE' | 'POTENTIAL_LEFT_BG' | 'POTENTIAL_RIGHT_BG' | 'BOX_SELECT';
+    mode: 'IDLE' | 'DRAG_NOTE' | 'POTENTIAL_LEFT_BG' | 'POTENTIAL_RIGHT_BG' | 'BOX_SELECT' | 'LOOP_SELECT';
     startX: number;
     startY: number;
     startScrollTop: number;
@@ -226,7 +231,7 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
       const dy = y - interactionRef.current.startY;
       const dist = Math.abs(dx) + Math.abs(dy);
 
-      if (interactionRef.current.mode === 'BOX_SELECT' || interactionRef.current.mode === 'DRAG_NOTE') {
+      if (interactionRef.current.mode === 'BOX_SELECT' || interactionRef.current.mode === 'DRAG_NOTE' || interactionRef.current.mode === 'LOOP_SELECT') {
           const rect = container.getBoundingClientRect();
           const mouseY = e.clientY;
           const topThreshold = rect.top + 50;
@@ -286,6 +291,21 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
           dragSelectedIdsRef.current = newSelectedIds;
       }
 
+      // Boucle : bornes alignées sur les temps, pour que le groove et le shaker se raccordent
+      if (interactionRef.current.mode === 'LOOP_SELECT') {
+          const startYAbs = (interactionRef.current.startY + interactionRef.current.startScrollTop - CANVAS_PADDING_TOP);
+          const currentYAbs = (y + scrollTop - CANVAS_PADDING_TOP);
+          const startTick = Math.max(0, (startYAbs / TICK_HEIGHT) + baseTickOffset);
+          const currentTickMouse = Math.max(0, (currentYAbs / TICK_HEIGHT) + baseTickOffset);
+
+          interactionRef.current.selectionRect = {
+              startTick: Math.floor(Math.min(startTick, currentTickMouse) / TICKS_QUARTER) * TICKS_QUARTER,
+              endTick: Math.ceil(Math.max(startTick, currentTickMouse) / TICKS_QUARTER) * TICKS_QUARTER,
+              startX: 0,
+              endX: width
+          };
+      }
+
       if (interactionRef.current.mode === 'DRAG_NOTE' && interactionRef.current.activeNote) {
            const yAbsolute = y + scrollTop - CANVAS_PADDING_TOP;
            const rawTick = Math.max(0, (yAbsolute / TICK_HEIGHT) + baseTickOffset);
@@ -345,6 +365,12 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
               }
           }
       }
+      else if (mode === 'LOOP_SELECT') {
+          const region = interactionRef.current.selectionRect;
+          if (onLoopSelect) {
+              onLoopSelect(dist >= 10 && region && region.endTick > region.startTick ? { startTick: region.startTick, endTick: region.endTick } : null);
+          }
+      }
       else if (mode === 'POTENTIAL_LEFT_BG') {
           const scrollTop = container.scrollTop;
           const yAbsolute = y + scrollTop - CANVAS_PADDING_TOP;
@@ -404,6 +430,8 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
       } else {
           if (isRightClick) {
               interactionRef.current = { ...baseState, mode: 'POTENTIAL_RIGHT_BG' };
+          } else if (!isTouch && (e as React.MouseEvent).shiftKey && onLoopSelect) {
+              interactionRef.current = { ...baseState, mode: 'LOOP_SELECT' };
           } else {
               interactionRef.current = { ...baseState, mode: 'POTENTIAL_LEFT_BG' };
           }
@@ -544,14 +572,16 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
       const endTick = startTick + Math.ceil(visibleHeight / TICK_HEIGHT) + 20;
       const beatStart = Math.floor(startTick / 12) * 12;
       const beatEnd = Math.ceil(endTick / 12) * 12;
-      const beatsPerMeasure = rhythmMode === 'binary' ? 4 : 3;
+      // Temps et mesures selon les commandes MESURE (chiffrage par défaut : rhythmMode)
+      const measureMap = buildMeasureMap(data, meterFromRhythmMode(rhythmMode));
 
       ctx.lineWidth = 1;
       ctx.font = '10px sans-serif';
       ctx.textAlign = 'right';
       ctx.textBaseline = 'middle';
       
-      for (let t = beatStart; t <= beatEnd; t += 12) {
+      beatsInRange(measureMap, beatStart - TICKS_QUARTER * 2, beatEnd + 1).forEach(beatInfo => {
+           const t = beatInfo.tick;
            const y = CANVAS_PADDING_TOP + ((t - baseTickOffset) * TICK_HEIGHT) - scrollY;
            
            if (y >= -10 && y <= height + 10) {
@@ -560,8 +590,8 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
                
                let label = "";
                if (t >= TICKS_COUNT_IN) {
-                   const measureIndex = Math.floor((t - TICKS_COUNT_IN) / (12 * beatsPerMeasure)) + 1;
-                   const beatInMeasure = (Math.floor((t - TICKS_COUNT_IN) / 12) % beatsPerMeasure) + 1;
+                   const measureIndex = beatInfo.measure;
+                   const beatInMeasure = beatInfo.beat;
                    label = `${beatInMeasure}`;
                    
                    ctx.font = '10px sans-serif'; 
@@ -601,10 +631,19 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
                }
            }
            
-           drawSubLine(6, 'half', "1/2");
-           drawSubLine(3, 'quarter', "1/4"); drawSubLine(9, 'quarter', "1/4");
-           drawSubLine(1.5, 'eighth', "1/8"); drawSubLine(4.5, 'eighth', "1/8"); drawSubLine(7.5, 'eighth', "1/8"); drawSubLine(10.5, 'eighth', "1/8");
-      }
+           if (beatInfo.beatTicks === 12) {
+               drawSubLine(6, 'half', "1/2");
+               drawSubLine(3, 'quarter', "1/4"); drawSubLine(9, 'quarter', "1/4");
+               drawSubLine(1.5, 'eighth', "1/8"); drawSubLine(4.5, 'eighth', "1/8"); drawSubLine(7.5, 'eighth', "1/8"); drawSubLine(10.5, 'eighth', "1/8");
+           } else if (beatInfo.beatTicks === 18) {
+               // Temps ternaire (noire pointée) : 3 croches, 6 doubles
+               drawSubLine(6, 'half', "1/3"); drawSubLine(12, 'half', "2/3");
+               drawSubLine(3, 'quarter', ""); drawSubLine(9, 'quarter', ""); drawSubLine(15, 'quarter', "");
+           } else {
+               // Temps à la croche (5/8, 7/8...) ou à la blanche : demi-temps
+               drawSubLine(beatInfo.beatTicks / 2, 'half', "1/2");
+           }
+      });
 
       // Explicit type annotation for s
       STRING_CONFIGS.forEach((s: NoteConfig) => {
@@ -618,8 +657,124 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
       ctx.beginPath(); ctx.strokeStyle = '#5d4037'; ctx.lineWidth = 2;
       ctx.moveTo(centerX, 0); ctx.lineTo(centerX, height); ctx.stroke();
 
+      // Barres de reprise (|: :|) et crochets de 1ère / 2ème fois
+      const drawRepeatMarker = (note: ParsedNote, y: number) => {
+          ctx.save();
+          ctx.strokeStyle = '#5d4037'; ctx.fillStyle = '#5d4037';
+          const thickY = note.stringId === 'REPEAT_START' ? y - 6 : y;
+          const thinY = note.stringId === 'REPEAT_START' ? y - 2 : y - 4;
+          const dotsY = note.stringId === 'REPEAT_START' ? y + 5 : y - 11;
+
+          if (note.stringId === 'ENDING') {
+              const next = data.find(n => n.tick > note.tick && (n.stringId === 'ENDING' || n.stringId === 'REPEAT_END'));
+              const yEnd = CANVAS_PADDING_TOP + (((next ? next.tick : note.tick + 48) - baseTickOffset) * TICK_HEIGHT) - scrollY;
+              const bracketX = gridRight + 14;
+              ctx.lineWidth = 2;
+              ctx.beginPath(); ctx.moveTo(gridRight, y - 4); ctx.lineTo(bracketX, y - 4); ctx.lineTo(bracketX, yEnd - 8); ctx.stroke();
+              ctx.font = 'bold 12px sans-serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+              ctx.fillText(`${(note.ending || []).join(',')}.`, bracketX + 4, y + 4);
+              ctx.restore();
+              return;
+          }
+
+          ctx.lineWidth = 4;
+          ctx.beginPath(); ctx.moveTo(gridLeft, thickY); ctx.lineTo(gridRight, thickY); ctx.stroke();
+          ctx.lineWidth = 1.5;
+          ctx.beginPath(); ctx.moveTo(gridLeft, thinY); ctx.lineTo(gridRight, thinY); ctx.stroke();
+          [gridLeft + 12, gridRight - 12].forEach(dx => {
+              ctx.beginPath(); ctx.arc(dx, dotsY, 2.5, 0, Math.PI * 2); ctx.fill();
+          });
+          if (note.stringId === 'REPEAT_END') {
+              ctx.font = 'bold 12px sans-serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+              ctx.fillText(`×${note.repeat || 2}`, gridRight + 6, y);
+          }
+          ctx.restore();
+      };
+
+      // Queues de résonance des cordes étouffées (STOP), sous les billes
+      data.forEach(note => {
+          if (note.duration <= 0 || note.tick + note.duration < startTick - 5 || note.tick > endTick + 5) return;
+          const conf = STRING_CONFIGS.find((s: NoteConfig) => s.stringId === note.stringId);
+          if (!conf) return;
+          const x = centerX + ((conf.hand === 'G' ? -1 : 1) * conf.index * STRING_SPACING);
+          const y1 = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+          const y2 = CANVAS_PADDING_TOP + ((note.tick + note.duration - baseTickOffset) * TICK_HEIGHT) - scrollY;
+          const tailColor = NOTE_COLORS[(tuning[note.stringId] || conf.note).charAt(0)] || '#555';
+
+          ctx.save();
+          ctx.globalAlpha = 0.45; ctx.strokeStyle = tailColor; ctx.lineWidth = 6; ctx.lineCap = 'round';
+          ctx.beginPath(); ctx.moveTo(x, y1); ctx.lineTo(x, y2); ctx.stroke();
+          // Trait d'étouffement
+          ctx.globalAlpha = 1; ctx.strokeStyle = '#5d4037'; ctx.lineWidth = 2; ctx.lineCap = 'butt';
+          ctx.beginPath(); ctx.moveTo(x - 6, y2); ctx.lineTo(x + 6, y2); ctx.stroke();
+          ctx.restore();
+      });
+
       data.forEach(note => {
+          if (note.stringId === 'ENDING') {
+              drawRepeatMarker(note, CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY);
+              return;
+          }
           if (note.tick < startTick - 5 || note.tick > endTick + 5) return;
+
+          if (note.stringId === 'REPEAT_START' || note.stringId === 'REPEAT_END') {
+              drawRepeatMarker(note, CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY);
+              return;
+          }
+
+          // Tempo : "♩ = 140" au bord droit, flèche pointillée sur la durée d'un ACCEL / RIT
+          if (note.stringId === 'TEMPO' || note.stringId === 'ACCEL' || note.stringId === 'RIT') {
+              const y = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+              const label = note.stringId === 'TEMPO' ? `♩ = ${note.tempo}` : `${note.stringId === 'ACCEL' ? 'accel.' : 'rit.'} → ${note.tempo}`;
+              ctx.save();
+              ctx.font = 'bold 13px serif'; ctx.textAlign = 'right'; ctx.textBaseline = 'middle';
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(label, gridRight - 4, y - 8);
+              ctx.fillStyle = '#5d4037'; ctx.fillText(label, gridRight - 4, y - 8);
+              if (note.tempoBeats) {
+                  const yEnd = y + note.tempoBeats * TICKS_QUARTER * TICK_HEIGHT;
+                  ctx.strokeStyle = '#5d4037'; ctx.lineWidth = 1.5; ctx.setLineDash([4, 4]);
+                  ctx.beginPath(); ctx.moveTo(gridRight - 8, y); ctx.lineTo(gridRight - 8, yEnd); ctx.stroke();
+                  ctx.setLineDash([]);
+                  ctx.beginPath(); ctx.moveTo(gridRight - 12, yEnd - 6); ctx.lineTo(gridRight - 8, yEnd); ctx.lineTo(gridRight - 4, yEnd - 6); ctx.stroke();
+              }
+              ctx.restore();
+              return;
+          }
+
+          // Chiffrage (MESURE) au bord gauche, au-dessus de la ligne du temps
+          if (note.stringId === 'MESURE' && note.meter) {
+              const y = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+              const label = `${note.meter.numerator}/${note.meter.denominator}`;
+              ctx.save();
+              ctx.font = 'bold 14px serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(label, gridLeft + 4, y - 10);
+              ctx.fillStyle = '#5d4037'; ctx.fillText(label, gridLeft + 4, y - 10);
+              ctx.restore();
+              return;
+          }
+
+          // Groove : indication en italique au bord droit, sous la ligne du temps
+          if (note.stringId === 'GROOVE' && note.groove) {
+              const y = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+              const label = `groove : ${note.groove.template}${GROOVE_TEMPLATES.find(t => t.id === note.groove!.template)?.usesSwing ? ` ${note.groove.swing}%` : ''}`;
+              ctx.save();
+              ctx.font = 'italic 12px serif'; ctx.textAlign = 'right'; ctx.textBaseline = 'middle';
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(label, gridRight - 4, y + 10);
+              ctx.fillStyle = '#5d4037'; ctx.fillText(label, gridRight - 4, y + 10);
+              ctx.restore();
+              return;
+          }
+
+          // Nuance (DYN) : indication en italique au bord gauche de la grille
+          if (note.stringId === 'DYN' && note.message) {
+              const y = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+              ctx.save();
+              ctx.font = 'italic bold 15px serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(note.message, gridLeft + 4, y);
+              ctx.fillStyle = '#5d4037'; ctx.fillText(note.message, gridLeft + 4, y);
+              ctx.restore();
+              return;
+          }
           
           if (note.stringId === 'TEXTE' && note.message) {
               const y = CANVAS_PADDING_TOP + ((note.tick - baseTickOffset) * TICK_HEIGHT) - scrollY;
@@ -688,7 +843,9 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
                }
           }
 
-          const radius = isBeingDragged ? NOTE_RADIUS * 1.3 : NOTE_RADIUS;
+          // La taille de la bille suit la vélocité (accent plus gros, note fantôme plus petite)
+          const velocityScale = 0.7 + 0.3 * ((note.velocity ?? DEFAULT_VELOCITY) / DEFAULT_VELOCITY);
+          const radius = (isBeingDragged ? NOTE_RADIUS * 1.3 : NOTE_RADIUS) * velocityScale;
           const actualNoteName = tuning[displayStringId] || conf.note;
           const noteColor = NOTE_COLORS[actualNoteName.charAt(0)] || '#555';
 
@@ -713,6 +870,27 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
           ctx.beginPath(); ctx.arc(x, y, radius, 0, Math.PI * 2);
           ctx.strokeStyle = 'rgba(255,255,255,0.4)'; ctx.lineWidth = 1; ctx.stroke();
 
+          // Note transcrite : anneau vert / orange / rouge selon la confiance, et pourcentage sous la bille
+          const noteConfidence = confidence?.[`${note.tick}-${note.stringId}`];
+          if (noteConfidence !== undefined && !isBeingDragged) {
+              const ringColor = noteConfidence >= 0.75 ? '#2e7d32' : noteConfidence >= 0.5 ? '#ef6c00' : '#c62828';
+              ctx.save();
+              ctx.strokeStyle = ringColor; ctx.lineWidth = 2; ctx.setLineDash([3, 2]);
+              ctx.beginPath(); ctx.arc(x, y, radius + 4, 0, Math.PI * 2); ctx.stroke();
+              ctx.setLineDash([]);
+              ctx.font = 'bold 9px sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'top';
+              const label = `${Math.round(noteConfidence * 100)}%`;
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(label, x, y + radius + 5);
+              ctx.fillStyle = ringColor; ctx.fillText(label, x, y + radius + 5);
+              ctx.restore();
+          }
+
+          if (note.repeat && note.repeat > 1) {
+              ctx.font = 'bold 11px sans-serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+              ctx.lineWidth = 3; ctx.strokeStyle = '#e5c4a1'; ctx.strokeText(`×${note.repeat}`, x + radius + 3, y);
+              ctx.fillStyle = '#5d4037'; ctx.fillText(`×${note.repeat}`, x + radius + 3, y);
+          }
+
           if (note.doigt) {
               const badgeX = x - radius - 16;
               ctx.font = '18px sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
@@ -722,6 +900,29 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
           }
       });
 
+      // Région de boucle (ou celle en cours de sélection)
+      const loopBand = interactionRef.current.mode === 'LOOP_SELECT' ? interactionRef.current.selectionRect : loopRegion;
+      if (loopBand && loopBand.endTick > loopBand.startTick) {
+          const y1 = CANVAS_PADDING_TOP + ((loopBand.startTick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+          const y2 = CANVAS_PADDING_TOP + ((loopBand.endTick - baseTickOffset) * TICK_HEIGHT) - scrollY;
+
+          ctx.save();
+          ctx.fillStyle = 'rgba(128, 0, 32, 0.08)';
+          ctx.fillRect(gridLeft - 30, y1, gridRight - gridLeft + 60, y2 - y1);
+          ctx.strokeStyle = '#800020';
+          ctx.lineWidth = 2;
+          ctx.setLineDash([8, 4]);
+          ctx.beginPath();
+          ctx.moveTo(gridLeft - 30, y1); ctx.lineTo(gridRight + 30, y1);
+          ctx.moveTo(gridLeft - 30, y2); ctx.lineTo(gridRight + 30, y2);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.fillStyle = '#800020';
+          ctx.font = 'bold 10px sans-serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'bottom';
+          ctx.fillText('🔁 Boucle', gridRight + 8, y1 - 2);
+          ctx.restore();
+      }
+
       if (interactionRef.current.mode === 'BOX_SELECT' && interactionRef.current.selectionRect) {
           const { startTick, endTick, startX, endX } = interactionRef.current.selectionRect;
           
@@ -764,7 +965,7 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({
     };
     render();
     return () => cancelAnimationFrame(animationId);
-  }, [data, currentTick, tuning, rhythmMode, playbackState, isExporting, onNoteClick, onNoteDrag, onNoteHover, selectedNoteId, selectedNoteIds, dragSelectedIds, onBackgroundClick, onDeleteNote, onSeek, onNoteContextMenu, baseTickOffset]);
+  }, [data, currentTick, tuning, rhythmMode, playbackState, isExporting, onNoteClick, onNoteDrag, onNoteHover, selectedNoteId, selectedNoteIds, dragSelectedIds, onBackgroundClick, onDeleteNote, onSeek, onNoteContextMenu, baseTickOffset, loopRegion, confidence]);
 
   return (
     <div ref={containerRef} className="w-full h-full bg-transparent overflow-y-auto custom-scrollbar relative select-none scrollbar-hide">
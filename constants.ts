@@ -1,5 +1,5 @@
 
-import { NoteConfig, SongPreset, ScalePreset, Tuning } from './types';
+import { NoteConfig, SongPreset, ScalePreset, Tuning, Groove, GrooveTemplate, SynthParams, SamplePack, TempoRamp, MetronomeSettings, MetronomeVoice, RecordGrid, MidiAction, MidiMappingProfile, KeyboardLayout, KeyboardAdvance, TICKS_QUARTER, TICKS_EIGHTH, TICKS_TRIPLET, TICKS_SIXTEENTH } from './types';
 
 // =================================================================================
 // 🔗 CONFIGURATION DES RESSOURCES
@@ -41,15 +41,23 @@ export const ALL_CHROMATIC_NOTES = [
   'C5', 'C#5', 'D5', 'D#5', 'E5', 'F5', 'F#5', 'G5', 'G#5', 'A5', 'A#5', 'B5', 'C6'
 ];
 
-// Liste des samples réellement disponibles dans le dossier /samples
-// Restreint les choix possibles pour éviter de sélectionner une note sans son.
-// Plage standard Ngonilélé : approx E3 à G5 chromatique.
-export const AVAILABLE_SAMPLES = [
-  'E3', 'F3', 'F#3', 'G3', 'G#3', 'A3', 'A#3', 'B3',
-  'C4', 'C#4', 'D4', 'D#4', 'E4', 'F4', 'F#4', 'G4', 'G#4', 'A4', 'A#4', 'B4',
-  'C5', 'C#5', 'D5', 'D#5', 'E5', 'F5', 'F#5', 'G5'
+// Liste des samples réellement enregistrés dans le dossier /samples (E3 à G5).
+// Les autres notes de ALL_CHROMATIC_NOTES jouent le sample le plus proche, transposé.
+export const RECORDED_SAMPLES = [
+  'E3', 'F3', 'G3', 'G#3', 'A3', 'A#3', 'B3',
+  'C4', 'D4', 'D#4', 'E4', 'F4', 'G4', 'G#4', 'A4', 'A#4', 'B4',
+  'C5', 'D5', 'D#5', 'E5', 'F5', 'G5'
 ];
 
+// Pack livré avec l'application (un fichier par note enregistrée)
+export const DEFAULT_SAMPLE_PACK: SamplePack = {
+  id: 'ngonilele',
+  name: "Ngonilélé (samples d'origine)",
+  samples: Object.fromEntries(RECORDED_SAMPLES.map(note => [note, { file: `${note}.mp3`, root: note }]))
+};
+
+export const SAMPLE_PACKS: SamplePack[] = [DEFAULT_SAMPLE_PACK];
+
 export const SCALE_MAPPING = ['1D', '1G', '2D', '2G', '3D', '3G', '4D', '4G', '5D', '5G', '6D', '6G'];
 
 export const STRING_CONFIGS: NoteConfig[] = [
@@ -115,8 +123,79 @@ export const SCALES_PRESETS: ScalePreset[] = [
   }
 ];
 
+// Grooves : position des 4 doubles croches dans le temps (fraction du temps).
+// "swing" et "swing16" sont calculés à partir du pourcentage de swing.
+export const GROOVE_TEMPLATES: GrooveTemplate[] = [
+  { id: 'droit', name: "Droit" },
+  { id: 'swing', name: "Swing (croches)", usesSwing: true },
+  { id: 'swing16', name: "Swing (doubles croches)", usesSwing: true },
+  { id: 'mandingue', name: "Mandingue (doubles chaloupées)", positions: [0, 0.29, 0.5, 0.79] },
+  { id: 'soli', name: "Soli (entre 4 et 3)", positions: [0, 0.31, 0.56, 0.81] },
+  { id: 'dununba', name: "Dununba (croches lourdes)", positions: [0, 0.3, 0.6, 0.8] }
+];
+
+export const DEFAULT_GROOVE: Groove = { template: 'droit', swing: 66 };
+
+export const DEFAULT_TEMPO_RAMP: TempoRamp = { everyN: 3, step: 0.05, targetSpeed: 1 };
+
+export const METRONOME_VOICES: { id: MetronomeVoice; name: string }[] = [
+  { id: 'shaker', name: "Shaker" },
+  { id: 'click', name: "Clic" },
+  { id: 'woodblock', name: "Wood-block" },
+  { id: 'voice', name: "Voix (1, 2, 3...)" }
+];
+
+export const DEFAULT_METRONOME: MetronomeSettings = { voice: 'shaker', volume: 1, subdivision: 1, countInBars: 1, accents: {} };
+
+// Grilles de quantification des prises MIDI et micro (ticks d'un pas ; 'auto' : doubles ou triolets au plus proche)
+export const RECORD_GRIDS: { id: RecordGrid; name: string; ticks?: number }[] = [
+  { id: 'sixteenth', name: "Doubles croches", ticks: 3 },
+  { id: 'triplet', name: "Triolets", ticks: 4 },
+  { id: 'eighth', name: "Croches", ticks: 6 },
+  { id: 'auto', name: "Doubles ou triolets" }
+];
+
+// Prise au micro : notes détectées gardées à partir de cette confiance (0 à 1)
+export const MIC_MIN_CONFIDENCE = 0.5;
+
+export const MIDI_ACTIONS: { id: MidiAction; name: string }[] = [
+  { id: 'play', name: "Lecture / Pause" },
+  { id: 'stop', name: "Stop" },
+  { id: 'rewind', name: "Retour au début" },
+  { id: 'undo', name: "Annuler" },
+  { id: 'record', name: "Prise (Rec / Stop)" },
+  { id: 'metronome', name: "Métronome" }
+];
+
+// Rangée du milieu d'un clavier ISO (AZERTY : Q S D F G H | J K L M Ù *) : la main gauche joue
+// les cordes G de l'extérieur vers le centre, la main droite les cordes D du centre vers l'extérieur
+export const DEFAULT_KEYBOARD_LAYOUT: KeyboardLayout = {
+  KeyA: '6G', KeyS: '5G', KeyD: '4G', KeyF: '3G', KeyG: '2G', KeyH: '1G',
+  KeyJ: '1D', KeyK: '2D', KeyL: '3D', Semicolon: '4D', Quote: '5D', Backslash: '6D'
+};
+
+export const KEYBOARD_ADVANCES: { symbol: KeyboardAdvance; name: string; ticks: number }[] = [
+  { symbol: '+', name: "Noire", ticks: TICKS_QUARTER },
+  { symbol: '♪', name: "Croche", ticks: TICKS_EIGHTH },
+  { symbol: '🎶', name: "Triolet", ticks: TICKS_TRIPLET },
+  { symbol: '♬', name: "Double", ticks: TICKS_SIXTEENTH }
+];
+
+// Profils MIDI fournis : clavier (hauteurs de l'accordage) et pads 36-47 (une corde par pad, G puis D)
+export const MIDI_PROFILE_PRESETS: MidiMappingProfile[] = [
+  { id: 'clavier', name: "Clavier (hauteurs de l'accordage)", channel: null, octaveShift: 0, matchTuning: true, notes: {}, controls: {}, accentVelocity: 110, ghostVelocity: 30 },
+  {
+    id: 'pads', name: "Pads (notes 36 à 47)", channel: null, octaveShift: 0, matchTuning: false,
+    notes: { 36: '1G', 37: '2G', 38: '3G', 39: '4G', 40: '5G', 41: '6G', 42: '1D', 43: '2D', 44: '3D', 45: '4D', 46: '5D', 47: '6D' },
+    controls: {}, accentVelocity: 110, ghostVelocity: 30
+  }
+];
+
+export const DEFAULT_SYNTH_PARAMS: SynthParams = { brightness: 0.6, damping: 0.4, buzz: 0.3 };
+
 // NOTE: Tous les presets commencent désormais par 2 temps de silence (+ S)
-// Pour créer le décompte visuel.
+// Pour créer le décompte visuel. Le décompte sonore est joué par le moteur audio
+// avant chaque lancement (réglages du métronome), il n'est pas écrit dans le code.
 export const HEADER_SILENCE = "+   S\n+   S\n";
 
 export const PRESETS: SongPreset[] = [
@@ -2,6 +2,11 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 
+// Contrôles de développement, lancés depuis la console du navigateur
+if (import.meta.env.DEV) {
+  import('./utils/transcriptionCheck').then(m => { (window as any).ngonileleCheckTranscription = m.checkTranscription; });
+}
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
@@ -12,15 +12,278 @@ export interface NoteConfig {
 export interface ParsedNote {
   id: string;
   tick: number;
-  duration: number;
+  duration: number; // Ticks before the string is damped (0 = let ring)
   stringId: string;
   doigt?: string; // Finger: P (Thumb) or I (Index)
   message?: string; // For TXT commands
   isSeparator?: boolean;
   isPageBreak?: boolean;
+  repeat?: number; // Passes: xN on a note, n on REPEAT_END
+  repeatSpan?: number; // Ticks replayed by each extra pass of an xN note
+  ending?: number[]; // Passes played by an ENDING (1ère / 2ème fois)
+  stopStrings?: string[]; // STOP command: damped strings (empty = all strings)
+  velocity?: number; // 1-127, current DYN level adjusted by the note's dynamic mark
+  dynamicMark?: string; // Dynamics column as written: '>' (accent), 'g' (ghost) or 'v90'
+  tempo?: number; // TEMPO / ACCEL / RIT: target BPM
+  tempoBeats?: number; // ACCEL / RIT: ramp length in beats
+  meter?: Meter; // MESURE command: new time signature
+  groove?: Groove; // GROOVE command: feel from this beat on
   lineIndex: number; // The line number in the source code (0-based)
 }
 
+// Portion du temps de lecture (reprises dépliées) -> temps de la tablature compacte
+export interface TimelineSegment {
+  start: number;       // Playback tick (inclusive)
+  end: number;         // Playback tick (exclusive)
+  sourceStart: number; // Tablature tick matching `start`
+}
+
+export interface ExpandedTimeline {
+  notes: ParsedNote[];
+  segments: TimelineSegment[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// Problème détecté par le parser sur une ligne du code
+export interface ParseDiagnostic {
+  lineIndex: number;  // Same indexing as ParsedNote.lineIndex (0-based)
+  column: number;     // Offset of the offending token in the line (0-based)
+  length: number;     // Length of the offending token
+  severity: DiagnosticSeverity;
+  message: string;
+  suggestion?: string; // Corrected line, ready to replace the original one
+}
+
+export interface ParseResult {
+  notes: ParsedNote[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// Résultat de l'import d'un fichier .mid
+export interface MidiImportResult {
+  notes: ParsedNote[];                         // Absolute ticks, count-in included
+  unmapped: { pitch: string; count: number }[]; // Pitches with no string in the tuning
+  suggestedScale?: string;                     // Preset name covering more of the file
+}
+
+// Piste d'un fichier MIDI exporté (ticks de la tablature, 12 par noire)
+export interface MidiTrackData {
+  name: string;
+  channel: number;
+  notes: { tick: number; duration: number; midi: number; velocity: number }[];
+}
+
+export interface Meter {
+  numerator: number;
+  denominator: number;
+}
+
+// Portion de la carte des mesures (un chiffrage constant)
+export interface MeterSegment extends Meter {
+  startTick: number;
+  endTick: number;      // Exclusive, Infinity for the last segment
+  beatTicks: number;    // 12 for n/4, 18 for 6/8 - 12/8 (dotted quarter), 6 for 5/8, 7/8
+  measureTicks: number;
+  firstMeasure: number; // Number of the measure starting at startTick
+}
+
+export interface BeatInfo {
+  tick: number;
+  measure: number;
+  beat: number;         // 1-based position in the measure
+  isDownbeat: boolean;
+  beatTicks: number;
+}
+
+// Portion de la carte de tempo (rampe linéaire en ticks entre startBpm et endBpm)
+export interface TempoSegment {
+  startTick: number;
+  endTick: number;      // Exclusive, Infinity for the last segment
+  startBpm: number;
+  endBpm: number;
+  startSeconds: number; // Time of startTick from tick 0
+}
+
+// Groove : décalage des croches / doubles croches à l'intérieur de chaque temps
+export interface Groove {
+  template: string; // GROOVE_TEMPLATES id ('droit', 'swing', 'mandingue'...)
+  swing: number;    // % for 'swing' / 'swing16' (50 = straight, 66 = triplet feel)
+}
+
+export interface GrooveTemplate {
+  id: string;
+  name: string;
+  positions?: number[]; // Onsets of the 4 sixteenths of a beat, as fractions of the beat
+  usesSwing?: boolean;  // Positions computed from Groove.swing
+}
+
+// Portion de la carte de groove (commence toujours sur un temps)
+export interface GrooveSegment {
+  startTick: number;
+  endTick: number;      // Exclusive, Infinity for the last segment
+  positions: number[];
+}
+
+// Voix de l'instrument : samples enregistrés ou synthèse de corde pincée
+export type InstrumentVoice = 'samples' | 'synth';
+
+// Réglages de la synthèse Karplus-Strong (0 à 1)
+export interface SynthParams {
+  brightness: number; // Pluck attack and loop filter: 0 = dull, 1 = bright
+  damping: number;    // 0 = long ring (~6s), 1 = short thud
+  buzz: number;       // Resonator sizzle on loud parts of the wave
+}
+
+// Fichier d'un pack de samples
+export interface SampleManifestEntry {
+  file: string;  // File name (built-in packs: public/samples/, custom packs: IndexedDB)
+  root: string;  // Recorded pitch, e.g. 'E4'
+  gain?: number; // Level correction for this file (default 1)
+}
+
+// Pack de samples : un instrument enregistré (manifeste note -> fichier)
+export interface SamplePack {
+  id: string;
+  name: string;
+  samples: Record<string, SampleManifestEntry>; // Keyed by note name
+  gain?: number;    // Level of the whole pack (default 1)
+  custom?: boolean; // User recordings, stored locally; missing notes use the default pack
+}
+
+// Tranche du mixeur (une corde ou une main)
+export interface MixerChannel {
+  gain: number; // 0 to 2, 1 = unchanged
+  pan: number;  // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+// Mixeur par corde (STRING_CONFIGS stringId) et par main
+export interface MixerState {
+  strings: Record<string, MixerChannel>;
+  hands: Record<Hand, MixerChannel>;
+}
+
+// Avancement du chargement des samples de l'accordage
+export interface SampleLoadStatus {
+  loading: boolean;
+  loaded: number;    // Samples ready (recorded or replaced by the synth)
+  total: number;
+  missing: string[]; // Samples no source could provide, played by the synth
+}
+
+// Boucle d'entraînement (ticks de la partition, fin exclue)
+export interface LoopRegion {
+  startTick: number;
+  endTick: number;
+}
+
+// Accélération progressive de la boucle
+export interface TempoRamp {
+  everyN: number;      // Clean repetitions before each speed step
+  step: number;        // Added to the playback speed (0.05 = +5%)
+  targetSpeed: number; // Speed at which the ramp stops
+}
+
+// Son du métronome et du décompte
+export type MetronomeVoice = 'shaker' | 'click' | 'woodblock' | 'voice';
+
+// Accent d'un temps : 0 = muet, 1 = faible, 2 = moyen, 3 = fort
+export type AccentLevel = 0 | 1 | 2 | 3;
+
+export interface MetronomeSettings {
+  voice: MetronomeVoice;
+  volume: number;      // 0 to 1.5, metronome and count-in only
+  subdivision: number; // Clicks per beat (1 = beats only)
+  countInBars: number; // Bars counted before playback starts (0 = none)
+  accents: Record<string, AccentLevel[]>; // Custom patterns keyed by meter ('4/4', '6/8'), one level per beat
+}
+
+export interface MetronomeClick {
+  tick: number;          // Playback tick (count-in clicks are before the start tick)
+  beat: number;          // 1-based position in the measure
+  level: AccentLevel;
+  isSubdivision: boolean;
+}
+
+// Enregistrement MIDI en temps réel
+export type RecordGrid = 'sixteenth' | 'triplet' | 'eighth' | 'auto';
+export type TakeMode = 'merge' | 'overwrite';
+
+// Note-on horodaté pendant une prise
+export interface RecordedHit {
+  tick: number;    // Source tick heard when the key was pressed (not quantized)
+  time: number;    // performance.now() timestamp (ms), for chord detection
+  stringId: string;
+  finger?: string;
+  dynamicMark?: string; // From the key velocity ('>' or 'g')
+}
+
+// Note détectée dans un enregistrement audio (micro ou fichier)
+export interface DetectedNote {
+  time: number;       // Onset, seconds from the start of the audio
+  stringId: string;
+  frequency: number;  // Estimated pitch (Hz)
+  confidence: number; // 0 to 1: pitch clarity and distance to the string's tuning
+}
+
+// Repère de la capture micro : tick de partition entendu à l'instant `time` (s depuis le début de la capture)
+export interface TickAnchor {
+  time: number;
+  tick: number;
+}
+
+export interface MicCapture {
+  samples: Float32Array;
+  sampleRate: number;
+  anchors: TickAnchor[];
+}
+
+// Actions de transport déclenchées par un contrôleur (CC)
+export type MidiAction = 'play' | 'stop' | 'rewind' | 'undo' | 'record' | 'metronome';
+
+// Profil de correspondance d'un contrôleur MIDI
+export interface MidiMappingProfile {
+  id: string;
+  name: string;
+  channel: number | null;          // 1-16, null = every channel
+  octaveShift: number;             // Octaves added to incoming notes before matching the tuning
+  matchTuning: boolean;            // Notes without explicit mapping play the string tuned to their pitch
+  notes: Record<number, string>;   // Incoming note number (before octave shift) -> stringId
+  controls: Record<number, MidiAction>; // CC number -> action (on values >= 64)
+  accentVelocity: number | null;   // Velocity from which a note is written accented ('>'), null = off
+  ghostVelocity: number | null;    // Velocity up to which a note is written ghost ('g'), null = off
+}
+
+// Message MIDI interprété selon le profil
+export type MidiInputEvent =
+  | { type: 'note'; stringId: string; dynamicMark?: string }
+  | { type: 'action'; action: MidiAction }
+  | { type: 'unmapped'; note: number };
+
+// Élément en attente d'apprentissage : la prochaine note (corde) ou le prochain CC (action)
+export type MidiLearnTarget = { kind: 'string'; stringId: string } | { kind: 'action'; action: MidiAction };
+
+// Clavier d'ordinateur : touche physique (KeyboardEvent.code, indépendant d'AZERTY/QWERTY) -> corde
+export type KeyboardLayout = Record<string, string>;
+
+// Avance du curseur après une note (ou un accord) jouée au clavier, symboles du code
+export type KeyboardAdvance = '+' | '♪' | '🎶' | '♬';
+
+// Options communes à la lecture et au rendu hors-ligne (MP3, WAV, vidéo)
+export interface RenderOptions {
+  includeMetronome?: boolean; // Shaker on every beat
+  countIn?: boolean;          // Count-in before tick 0, as in live playback (metronome settings)
+  tailSeconds?: number;       // Time kept after the last note (default 3s)
+  speed?: number;             // Playback speed of the render (default: current practice speed)
+}
+
+export interface PdfOptions {
+  includeTableOfContents?: boolean; // Sommaire des sections TXT en page 1
+  rhythmMode?: 'binary' | 'ternary'; // Chiffrage avant la première commande MESURE
+}
+
 export interface SongPreset {
   name: string;
   code: string;
@@ -38,6 +301,9 @@ export const TICKS_EIGHTH = 6;
 export const TICKS_TRIPLET = 4;
 export const TICKS_SIXTEENTH = 3;
 
+// Vélocité d'une note sans nuance (mf), jouée au gain historique de 0.4
+export const DEFAULT_VELOCITY = 80;
+
 // Durée du décompte visuel (2 temps de noire = 2 * 12 = 24 ticks)
 export const TICKS_COUNT_IN = 24;
 
@@ -1,6 +1,14 @@
 
-import { ParsedNote, Tuning, TICKS_QUARTER } from '../types';
-import { BASE_TUNING, ASSETS_BASE_URL } from '../constants';
+import { ParsedNote, Tuning, TimelineSegment, TempoSegment, MeterSegment, GrooveSegment, Groove, InstrumentVoice, SynthParams, SampleLoadStatus, SamplePack, MixerState, LoopRegion, TempoRamp, MetronomeSettings, MetronomeClick, MidiTrackData, RenderOptions, MicCapture, TickAnchor, TICKS_QUARTER, DEFAULT_VELOCITY } from '../types';
+import { BASE_TUNING, STRING_CONFIGS, DEFAULT_GROOVE, DEFAULT_SYNTH_PARAMS, DEFAULT_SAMPLE_PACK, DEFAULT_METRONOME } from '../constants';
+import { expandRepeats, toSourceTick, toPlaybackTick } from './repeats';
+import { noteNameToMidi, writeMidiFile } from './midi';
+import { TEMPO_COMMANDS, buildTempoMap, tickToSeconds, secondsToTick, bpmAt } from './tempo';
+import { buildMeasureMap, meterFromRhythmMode } from './meter';
+import { clicksInRange, countInClicks } from './metronome';
+import { buildGrooveMap, applyGroove, removeGroove } from './groove';
+import { fetchSampleData } from './samples';
+import { createDefaultMixer, channelMix } from './mixer';
 // @ts-ignore
 import * as lamejs from 'lamejs';
 
@@ -58,31 +66,193 @@ function bufferToWave(abuffer: AudioBuffer, len: number) {
   }
 }
 
-class AudioEngine {
+const DAMPING_RELEASE = 0.06; // Durée du fondu d'étouffement (s)
+const NOTE_GAIN = 0.4; // Gain d'une note à DEFAULT_VELOCITY (mf)
+const DEFAULT_TAIL_SECONDS = 3.0; // Résonance conservée après la dernière note (export)
+
+// Processeur de la capture micro : recopie chaque quantum de rendu et l'envoie par blocs de ~2048
+// échantillons avec le numéro de trame audio de leur début (aucun trou si le fil principal est lent)
+const MIC_CAPTURE_WORKLET = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor() { super(); this.block = new Float32Array(2048); this.length = 0; this.startFrame = 0; }
+  flush() {
+    if (this.length > 0) this.port.postMessage({ startFrame: this.startFrame, samples: this.block.slice(0, this.length) });
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    if (this.length > 0 && currentFrame !== this.startFrame + this.length) this.flush();
+    if (this.length + channel.length > this.block.length) this.flush();
+    if (this.length === 0) this.startFrame = currentFrame;
+    this.block.set(channel, this.length);
+    this.length += channel.length;
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+// Même gain en lecture et en export : la vélocité vient du code (DYN, >, g, vNN)
+const velocityToGain = (note: ParsedNote) => NOTE_GAIN * (note.velocity ?? DEFAULT_VELOCITY) / DEFAULT_VELOCITY;
+
+// --- SYNTHÈSE DE CORDE PINCÉE (KARPLUS-STRONG) ---
+
+const SYNTH_SECONDS = 3.0; // Longueur du buffer synthétisé
+const SYNTH_PEAK = 0.8;    // Crête après normalisation, proche de celle des samples
+const BUZZ_THRESHOLD = 0.35;
+
+/**
+ * Une rafale de bruit (filtrée selon `brightness`) circule dans une ligne à retard d'une
+ * période ; à chaque passage elle est moyennée (passe-bas) et atténuée selon `damping`.
+ * Un passe-tout règle la fraction de période pour rester juste dans l'aigu.
+ * Le buzz, hors de la boucle, ajoute du bruit quand l'onde dépasse un seuil (résonateur).
+ * Le buffer est calculé d'avance : il sert aussi bien en direct qu'en OfflineAudioContext.
+ */
+function synthesizePluck(ctx: BaseAudioContext, freq: number, params: SynthParams): AudioBuffer {
+  const sr = ctx.sampleRate;
+  const length = Math.floor(sr * SYNTH_SECONDS);
+  const buffer = ctx.createBuffer(1, length, sr);
+  const data = buffer.getChannelData(0);
+
+  // Filtre de boucle : y = w·x[n] + (1-w)·x[n-1], retard de phase (1-w)
+  const w = 0.5 + 0.45 * params.brightness;
+  const period = sr / freq;
+  let delay = Math.floor(period - (1 - w));
+  let fraction = period - (1 - w) - delay;
+  if (fraction < 0.1 && delay > 2) { delay--; fraction += 1; }
+  const allpass = (1 - fraction) / (1 + fraction);
+
+  // Temps de décroissance de 60 dB : 6s (damping 0) à 0.3s (damping 1)
+  const t60 = 0.3 + 5.7 * (1 - params.damping);
+  const loss = Math.pow(10, -3 / (t60 * freq));
+
+  // Excitation : bruit adouci par un passe-bas à un pôle
+  const attack = 0.15 + 0.85 * params.brightness;
+  let smoothed = 0;
+  for (let i = 0; i < delay && i < length; i++) {
+    smoothed += attack * ((Math.random() * 2 - 1) - smoothed);
+    data[i] = smoothed;
+  }
+
+  let apIn = 0;
+  let apOut = 0;
+  for (let n = delay; n < length; n++) {
+    const filtered = w * data[n - delay] + (1 - w) * (n - delay - 1 >= 0 ? data[n - delay - 1] : 0);
+    const tuned = allpass * filtered + apIn - allpass * apOut;
+    apIn = filtered;
+    apOut = tuned;
+    data[n] = loss * tuned;
+  }
+
+  let peak = 0;
+  for (let n = 0; n < length; n++) peak = Math.max(peak, Math.abs(data[n]));
+  const scale = peak > 0 ? SYNTH_PEAK / peak : 0;
+  for (let n = 0; n < length; n++) {
+    const y = data[n] * scale;
+    const contact = Math.max(0, Math.abs(y) - BUZZ_THRESHOLD * SYNTH_PEAK);
+    data[n] = y + params.buzz * contact * (Math.random() * 2 - 1) * 3;
+  }
+  return buffer;
+}
+
+// Note de l'accordage -> sample enregistré qui la joue
+interface SampleVoice {
+  pack: SamplePack;
+  sample: string;       // Manifest key (note name) of the recorded file
+  playbackRate: number; // 1 = recorded pitch
+  gain: number;         // Pack and file level
+}
+
+// Un enregistrement personnel n'est transposé que de quelques demi-tons,
+// au-delà on reprend le pack par défaut
+const MAX_CUSTOM_SHIFT = 3;
+
+const bufferKey = (voice: SampleVoice) => `${voice.pack.id}:${voice.sample}`;
+
+/**
+ * Fichier du pack dont la hauteur d'origine est la plus proche de la note, et vitesse de
+ * lecture pour la transposer (2^(demi-tons / 12)). À égale distance, on préfère ralentir
+ * un sample plus aigu. null si aucun fichier n'est à moins de `maxShift` demi-tons.
+ */
+const nearestSample = (pack: SamplePack, note: string, maxShift: number): SampleVoice | null => {
+  const midi = noteNameToMidi(note);
+  if (midi === null) return null;
+  const nearest = Object.entries(pack.samples)
+    .map(([sample, entry]) => ({ sample, entry, semitones: midi - (noteNameToMidi(entry.root) ?? midi) }))
+    .sort((a, b) => Math.abs(a.semitones) - Math.abs(b.semitones) || a.semitones - b.semitones)[0];
+  if (!nearest || Math.abs(nearest.semitones) > maxShift) return null;
+  return {
+    pack,
+    sample: nearest.sample,
+    playbackRate: Math.pow(2, nearest.semitones / 12),
+    gain: (pack.gain ?? 1) * (nearest.entry.gain ?? 1)
+  };
+};
+
+export class AudioEngine {
   public ctx: AudioContext | null = null;
   private isPlaying = false;
   private nextNoteIndex = 0;
+  private scheduledUntilTick = 0; // Live: ticks already handed to scheduleTicks
   private startTime = 0;
   private schedulerId: number | null = null;
   private bpm = 120;
   private playbackSpeed = 1.0; 
   private notes: ParsedNote[] = [];
+  // Reprises dépliées : temps joué -> temps de la tablature
+  private segments: TimelineSegment[] = [];
+  private textMarkers: ParsedNote[] = []; // TXT events in playback order (MIDI markers)
+  // Commandes TEMPO / ACCEL / RIT (ticks joués) et carte de tempo correspondante
+  private tempoEvents: ParsedNote[] = [];
+  private tempoMap: TempoSegment[] = buildTempoMap([], 120);
+  // Commandes MESURE et carte des mesures (accents du métronome)
+  private meterEvents: ParsedNote[] = [];
+  private measureMap: MeterSegment[] = buildMeasureMap([], meterFromRhythmMode('binary'));
+  private groove: Groove = DEFAULT_GROOVE; // Groove du projet, avant toute commande GROOVE
+  private grooveEvents: ParsedNote[] = [];
+  private grooveMap: GrooveSegment[] = buildGrooveMap([], DEFAULT_GROOVE);
+  // Boucle d'entraînement : région en ticks de la partition, convertie en ticks de lecture
+  private loopRegion: LoopRegion | null = null;
+  private loop: LoopRegion | null = null;
+  private tempoRamp: TempoRamp | null = null;
+  private loopRepetition = 0;   // Tours terminés depuis le lancement
+  private cleanRepetitions = 0; // Tours propres depuis le dernier palier (remis à 0 par markLoopMiss)
+  // Tours programmés d'avance : l'affichage ne change d'origine qu'une fois leur début entendu
+  private pendingLoopPasses: { time: number; origin: number; tempoMap: TempoSegment[]; repetition: number; speed: number }[] = [];
+  private displayOrigin = 0;
+  private displayTempoMap: TempoSegment[] = this.tempoMap;
   private onTickCallback: ((tick: number) => void) | null = null;
   private onEndedCallback: (() => void) | null = null; 
+  private onSampleStatusCallback: ((status: SampleLoadStatus) => void) | null = null;
+  private onLoopPassCallback: ((repetition: number, speed: number) => void) | null = null;
   private animationFrameId: number | null = null;
   private currentTuning: Tuning = BASE_TUNING;
   
   private isMetronomeEnabled = false;
-  private nextBeatTime = 0;
-  private currentBeatIndex = 0; 
+  private metronome: MetronomeSettings = DEFAULT_METRONOME;
+  private speechTimers: number[] = []; // Comptes parlés en attente (lecture en direct seulement)
+  private countInUntil = 0; // Heure (ctx) de fin du décompte : le curseur attend le départ
+  private countInTick = 0; // Tick de lecture du départ
+  private renderedCountIn = 0; // Durée (s) du décompte en tête du dernier rendu hors-ligne
   private rhythmMode: 'binary' | 'ternary' = 'binary'; 
   private shakerBuffer: AudioBuffer | null = null;
 
-  private stringBuffers: Record<string, AudioBuffer> = {};
+  private stringBuffers: Record<string, AudioBuffer> = {}; // Par "<pack>:<sample>"
+  private samplePack: SamplePack = DEFAULT_SAMPLE_PACK;
+  private mixer: MixerState = createDefaultMixer();
+  private sampleMap: Record<string, SampleVoice> = {};
+  private voice: InstrumentVoice = 'samples';
+  private synthParams: SynthParams = DEFAULT_SYNTH_PARAMS;
+  private synthBuffers: Record<string, AudioBuffer> = {}; // Par note, pour les réglages en cours
+  private synthesizedSamples = new Set<string>(); // Samples introuvables, remplacés par la synthèse
   private samplesLoaded = false;
   
   private dest: MediaStreamAudioDestinationNode | null = null;
   private prerenderedSource: AudioBufferSourceNode | null = null;
+  // Capture micro (transcription) : signal reçu du processeur et repères de tick
+  private mic: { stream: MediaStream; source: MediaStreamAudioSourceNode; node: AudioWorkletNode; samples: Float32Array; length: number; originFrame: number | null; inputLatency: number; anchors: TickAnchor[] } | null = null;
+  private micWorkletContext: BaseAudioContext | null = null; // Contexte où le processeur est déjà chargé
 
   constructor() {}
 
@@ -107,8 +277,36 @@ class AudioEngine {
   }
 
   public setMetronome(enabled: boolean) { this.isMetronomeEnabled = enabled; }
-  public setRhythmMode(mode: 'binary' | 'ternary') { this.rhythmMode = mode; }
-  public setPlaybackSpeed(speed: number) { this.playbackSpeed = speed; }
+  public setMetronomeSettings(settings: MetronomeSettings) { this.metronome = settings; }
+  public setRhythmMode(mode: 'binary' | 'ternary') { this.rhythmMode = mode; this.updateMeasureMap(); }
+  public setPlaybackSpeed(speed: number) { this.playbackSpeed = speed; this.updateTempoMap(); }
+  public setGroove(groove: Groove) { this.groove = groove; this.updateGrooveMap(); }
+  public setVoice(voice: InstrumentVoice) { this.voice = voice; }
+  public setSynthParams(params: SynthParams) {
+    this.synthParams = params;
+    this.synthBuffers = {};
+    // Les samples introuvables remplacés par la synthèse seront recalculés
+    this.synthesizedSamples.forEach(key => delete this.stringBuffers[key]);
+    this.synthesizedSamples.clear();
+  }
+  public setMixer(mixer: MixerState) { this.mixer = mixer; }
+  public setSamplePack(pack: SamplePack) {
+    this.samplePack = pack;
+    this.sampleMap = {};
+    // Un pack personnel a pu recevoir de nouveaux enregistrements : on les relit
+    if (pack.custom) {
+      Object.keys(this.stringBuffers).filter(key => key.startsWith(`${pack.id}:`)).forEach(key => {
+        delete this.stringBuffers[key];
+        this.synthesizedSamples.delete(key);
+      });
+    }
+  }
+
+  // Volume du pack seul : les buffers restent en place, seuls les gains des notes sont recalculés
+  public setSamplePackGain(gain: number) {
+    this.samplePack = { ...this.samplePack, gain };
+    this.sampleMap = {};
+  }
 
   private createNoiseBuffer(ctx: BaseAudioContext): AudioBuffer {
       const bufferSize = ctx.sampleRate * 2.0; 
@@ -120,7 +318,7 @@ class AudioEngine {
       return buffer;
   }
 
-  private playShaker(ctx: BaseAudioContext, dest: AudioNode, time: number, accent: boolean = false, buffer: AudioBuffer) {
+  private playShaker(ctx: BaseAudioContext, dest: AudioNode, time: number, accent: boolean, buffer: AudioBuffer, peakGain: number) {
       const source = ctx.createBufferSource();
       source.buffer = buffer;
       const filter = ctx.createBiquadFilter();
@@ -128,7 +326,6 @@ class AudioEngine {
       filter.frequency.value = accent ? 1500 : 1000; 
       const gain = ctx.createGain();
       gain.gain.setValueAtTime(0, time);
-      const peakGain = accent ? 0.35 : 0.15;
       gain.gain.linearRampToValueAtTime(peakGain, time + 0.005); 
       gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05); 
       source.connect(filter);
@@ -138,54 +335,127 @@ class AudioEngine {
       source.stop(time + 0.1);
   }
 
+  // Bip court (clic : onde carrée filtrée ; wood-block : deux partiels inharmoniques en triangle)
+  private playTone(ctx: BaseAudioContext, dest: AudioNode, time: number, partials: { freq: number; type: OscillatorType }[], peakGain: number, decay: number) {
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, time);
+      gain.gain.linearRampToValueAtTime(peakGain, time + 0.002);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + decay);
+      gain.connect(dest);
+      partials.forEach(p => {
+          const osc = ctx.createOscillator();
+          osc.type = p.type;
+          osc.frequency.value = p.freq;
+          osc.connect(gain);
+          osc.start(time);
+          osc.stop(time + decay + 0.02);
+      });
+  }
+
+  // Compte parlé (synthèse vocale du navigateur) : seulement en lecture directe, sans passer par le mixage
+  private speakCount(text: string, time: number) {
+      if (!this.ctx || typeof speechSynthesis === 'undefined') return;
+      const delay = Math.max(0, (time - this.ctx.currentTime) * 1000);
+      const volume = Math.min(1, this.metronome.volume);
+      this.speechTimers.push(window.setTimeout(() => {
+          const utterance = new SpeechSynthesisUtterance(text);
+          utterance.lang = 'fr-FR';
+          utterance.rate = 1.8;
+          utterance.volume = volume;
+          speechSynthesis.speak(utterance);
+      }, delay));
+  }
+
+  /**
+   * Un clic du métronome ou du décompte, avec la voix et le volume choisis.
+   * La voix parlée ne peut pas être rendue hors-ligne : les exports utilisent le wood-block.
+   */
+  private playClick(ctx: BaseAudioContext, dest: AudioNode, time: number, click: MetronomeClick) {
+      if (click.level === 0) return;
+      const accent = click.level === 3;
+      const peak = (click.isSubdivision ? 0.08 : [0, 0.15, 0.25, 0.35][click.level]) * this.metronome.volume;
+      const voice = this.metronome.voice === 'voice' && (ctx !== this.ctx || click.isSubdivision) ? 'woodblock' : this.metronome.voice;
+
+      if (voice === 'voice') {
+          this.speakCount(String(click.beat), time);
+      } else if (voice === 'click') {
+          this.playTone(ctx, dest, time, [{ freq: accent ? 2000 : click.level === 2 ? 1600 : 1200, type: 'square' }], peak * 0.5, 0.03);
+      } else if (voice === 'woodblock') {
+          const freq = accent ? 1100 : click.isSubdivision ? 700 : 850;
+          this.playTone(ctx, dest, time, [{ freq, type: 'triangle' }, { freq: freq * 2.76, type: 'sine' }], peak, 0.08);
+      } else {
+          const shaker = this.shakerBuffer || (this.shakerBuffer = this.createNoiseBuffer(ctx));
+          this.playShaker(ctx, dest, time, accent, shaker, peak);
+      }
+  }
+
+  // Sample du pack choisi qui joue une note (pack par défaut si le pack personnel n'a rien d'assez proche)
+  private resolveSample(note: string): SampleVoice {
+    const cached = this.sampleMap[note];
+    if (cached) return cached;
+    const voice = (this.samplePack.custom ? nearestSample(this.samplePack, note, MAX_CUSTOM_SHIFT) : nearestSample(this.samplePack, note, Infinity))
+      || nearestSample(DEFAULT_SAMPLE_PACK, note, Infinity)
+      || { pack: DEFAULT_SAMPLE_PACK, sample: note, playbackRate: 1, gain: 1 };
+    this.sampleMap[note] = voice;
+    return voice;
+  }
+
   public async loadSamples() {
      if (!this.ctx) return;
+     if (this.voice === 'synth') return; // Buffers calculés à la demande (voiceFor)
      
      // Explicitly typing note as string to avoid TS2345/TS2538
      const rawValues = Object.values(this.currentTuning);
-     const uniqueNotes: string[] = Array.from(new Set(rawValues));
+     const voices = new Map<string, SampleVoice>();
+     rawValues.forEach(note => { const voice = this.resolveSample(note); voices.set(bufferKey(voice), voice); });
+     const pending = Array.from(voices.entries()).filter(([key]) => !this.stringBuffers[key]);
+     if (pending.length === 0) return;
+
+     let loaded = voices.size - pending.length;
+     this.reportSampleStatus(true, loaded, voices.size);
      
-     const loadPromises = uniqueNotes.map(async (note: string) => {
-        // Casting note to string for index access safety
-        const noteKey = note as string;
-        if (this.stringBuffers[noteKey]) return;
+     const loadPromises = pending.map(async ([key, voice]) => {
         try {
-            const url = `${ASSETS_BASE_URL}samples/${encodeURIComponent(noteKey)}.mp3`;
-            const response = await fetch(url);
-            if (!response.ok) throw new Error(`Fichier introuvable sur ${url}`);
-            const arrayBuffer = await response.arrayBuffer();
-            const audioBuffer = await this.ctx!.decodeAudioData(arrayBuffer);
-            this.stringBuffers[noteKey] = audioBuffer;
+            const { data } = await fetchSampleData(voice.pack, voice.sample);
+            const audioBuffer = await this.ctx!.decodeAudioData(data);
+            this.stringBuffers[key] = audioBuffer;
+            this.synthesizedSamples.delete(key);
         } catch (e) {
-            console.warn(`Sample manquant pour ${noteKey}.`, e);
+            console.warn(`Sample manquant pour ${key} : synthèse de corde à la place.`, e);
             if (this.ctx) {
-                this.stringBuffers[noteKey] = this.generateFallbackBuffer(this.ctx, this.getNoteFreq(noteKey));
+                const root = voice.pack.samples[voice.sample]?.root || voice.sample;
+                this.stringBuffers[key] = synthesizePluck(this.ctx, this.getNoteFreq(root), this.synthParams);
+                this.synthesizedSamples.add(key);
             }
         }
+        this.reportSampleStatus(true, ++loaded, voices.size);
      });
      await Promise.all(loadPromises);
      this.samplesLoaded = true;
+     this.reportSampleStatus(false, loaded, voices.size);
   }
 
-  private getNoteFreq(note: string): number {
-    const noteMap: Record<string, number> = {
-      'E3': 164.81, 'F3': 174.61, 'G3': 196.00, 'G#3': 207.65, 'A3': 220.00, 'A#3': 233.08, 'B3': 246.94,
-      'C4': 261.63, 'D4': 293.66, 'D#4': 311.13, 'E4': 329.63, 'F4': 349.23, 'F#4': 369.99, 'G4': 392.00, 'G#4': 415.30, 'A4': 440.00, 'A#4': 466.16, 'B4': 493.88,
-      'C5': 523.25, 'D5': 587.33, 'D#5': 622.25, 'E5': 659.25, 'F5': 698.46, 'G5': 783.99
-    };
-    return noteMap[note] || 440;
+  private reportSampleStatus(loading: boolean, loaded: number, total: number) {
+    if (this.onSampleStatusCallback) {
+      const missing = Array.from(this.synthesizedSamples).map(key => key.slice(key.lastIndexOf(':') + 1)).sort();
+      this.onSampleStatusCallback({ loading, loaded, total, missing });
+    }
+  }
+
+  // Buffer à jouer pour une note de l'accordage (corde synthétisée ou sample transposé)
+  private voiceFor(ctx: BaseAudioContext, note: string): { buffer: AudioBuffer; playbackRate: number; gain: number } | null {
+    if (this.voice === 'synth') {
+      if (!this.synthBuffers[note]) this.synthBuffers[note] = synthesizePluck(ctx, this.getNoteFreq(note), this.synthParams);
+      return { buffer: this.synthBuffers[note], playbackRate: 1, gain: 1 };
+    }
+    const voice = this.resolveSample(note);
+    const buffer = this.stringBuffers[bufferKey(voice)];
+    return buffer ? { buffer, playbackRate: voice.playbackRate, gain: voice.gain } : null;
   }
 
-  private generateFallbackBuffer(ctx: BaseAudioContext, freq: number): AudioBuffer {
-     const sr = ctx.sampleRate;
-     const len = sr * 1.0; 
-     const buffer = ctx.createBuffer(1, len, sr);
-     const data = buffer.getChannelData(0);
-     for(let i=0; i<len; i++) {
-         const t = i/sr;
-         data[i] = Math.sin(2 * Math.PI * freq * t) * Math.exp(-4 * t);
-     }
-     return buffer;
+  private getNoteFreq(note: string): number {
+    const midi = noteNameToMidi(note);
+    return midi === null ? 440 : 440 * Math.pow(2, (midi - 69) / 12);
   }
 
   public getAudioStream(): MediaStream | null {
@@ -193,12 +463,153 @@ class AudioEngine {
     return this.dest ? this.dest.stream : null;
   }
 
+  // Décode un fichier audio (mp3, wav, m4a…) avec le contexte du moteur, canaux mélangés en mono
+  public async decodeRecording(data: ArrayBuffer): Promise<{ samples: Float32Array; sampleRate: number }> {
+    if (!this.ctx) this.init();
+    if (!this.ctx) throw new Error("Web Audio indisponible.");
+    const buffer = await this.ctx.decodeAudioData(data);
+    const samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < buffer.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return { samples, sampleRate: buffer.sampleRate };
+  }
+
+  // --- CAPTURE MICRO ---
+
+  /**
+   * Ouvre le micro (sans traitement du navigateur, qui abîme les attaques). Un AudioWorklet
+   * envoie tout le signal, placé d'après son numéro de trame. À chaque bloc reçu, le tick
+   * entendu est relevé sur la même horloge (latences d'entrée et de sortie comprises).
+   */
+  public async startMicCapture() {
+    if (!this.ctx) this.init();
+    if (!this.ctx || this.mic) return;
+    const ctx = this.ctx;
+    if (ctx.state === 'suspended') await ctx.resume();
+    if (this.micWorkletContext !== ctx) {
+      const url = URL.createObjectURL(new Blob([MIC_CAPTURE_WORKLET], { type: 'application/javascript' }));
+      try { await ctx.audioWorklet.addModule(url); } finally { URL.revokeObjectURL(url); }
+      this.micWorkletContext = ctx;
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false } });
+    const source = ctx.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(ctx, 'mic-capture', { numberOfInputs: 1, numberOfOutputs: 1, channelCount: 1, channelCountMode: 'explicit' });
+    source.connect(node);
+    node.connect(ctx.destination); // Sortie muette : le nœud reste tiré par le rendu
+
+    const inputLatency = (stream.getAudioTracks()[0]?.getSettings() as { latency?: number }).latency ?? 0;
+    const mic = { stream, source, node, samples: new Float32Array(ctx.sampleRate * 30), length: 0, originFrame: null as number | null, inputLatency, anchors: [] as TickAnchor[] };
+    node.port.onmessage = (event: MessageEvent<{ startFrame: number; samples: Float32Array }>) => {
+      if (this.mic !== mic) return;
+      const { startFrame, samples } = event.data;
+      if (mic.originFrame === null) mic.originFrame = startFrame;
+      const offset = startFrame - mic.originFrame;
+      const end = offset + samples.length;
+      if (end > mic.samples.length) {
+        const grown = new Float32Array(Math.max(end, mic.samples.length * 2));
+        grown.set(mic.samples);
+        mic.samples = grown;
+      }
+      mic.samples.set(samples, offset);
+      mic.length = Math.max(mic.length, end);
+      if (this.isPlaying) {
+        // Joué à `currentTime` (programmation) -> entendu après la latence de sortie -> capté après celle d'entrée
+        const latency = (ctx.outputLatency || ctx.baseLatency || 0) + mic.inputLatency;
+        mic.anchors.push({ time: ctx.currentTime - mic.originFrame / ctx.sampleRate + latency, tick: this.getCurrentTick() });
+      }
+    };
+    this.mic = mic;
+  }
+
+  // Ferme le micro et rend le signal capturé (null si aucune capture en cours)
+  public stopMicCapture(): MicCapture | null {
+    const mic = this.mic;
+    if (!mic || !this.ctx) return null;
+    this.mic = null;
+    mic.node.port.onmessage = null;
+    mic.source.disconnect();
+    mic.node.disconnect();
+    mic.stream.getTracks().forEach(track => track.stop());
+    return { samples: mic.samples.slice(0, mic.length), sampleRate: this.ctx.sampleRate, anchors: mic.anchors };
+  }
+
   public setNotes(notes: ParsedNote[]) {
-    this.notes = notes.filter(n => n.stringId !== 'TEXTE' && n.stringId !== 'PAGE_BREAK');
+    const timeline = expandRepeats(notes);
+    this.segments = timeline.segments;
+    this.notes = timeline.notes.filter(n => !['TEXTE', 'PAGE_BREAK', 'STOP', 'DYN', 'MESURE', 'GROOVE', ...TEMPO_COMMANDS].includes(n.stringId));
+    this.textMarkers = timeline.notes.filter(n => n.stringId === 'TEXTE' && n.message);
+    this.tempoEvents = timeline.notes.filter(n => TEMPO_COMMANDS.includes(n.stringId));
+    this.meterEvents = timeline.notes.filter(n => n.stringId === 'MESURE');
+    this.grooveEvents = timeline.notes.filter(n => n.stringId === 'GROOVE');
+    this.updateTempoMap();
+    this.updateMeasureMap();
+    this.updateGrooveMap();
+    this.updateLoop();
   }
 
-  public setBpm(bpm: number) { this.bpm = bpm; }
+  public setBpm(bpm: number) { this.bpm = bpm; this.updateTempoMap(); }
+
+  private updateTempoMap() {
+    this.tempoMap = buildTempoMap(this.tempoEvents, this.bpm, this.playbackSpeed);
+  }
+
+  private updateMeasureMap() {
+    this.measureMap = buildMeasureMap(this.meterEvents, meterFromRhythmMode(this.rhythmMode));
+  }
+
+  private updateGrooveMap() {
+    this.grooveMap = buildGrooveMap(this.grooveEvents, this.groove);
+  }
   
+  // --- BOUCLE D'ENTRAÎNEMENT ---
+
+  /**
+   * Région jouée en boucle (null pour la retirer). En cours de lecture, si la position
+   * est hors de la région, la lecture repart de son début.
+   */
+  public setLoop(region: LoopRegion | null) {
+    this.loopRegion = region;
+    this.updateLoop();
+    this.loopRepetition = 0;
+    this.cleanRepetitions = 0;
+    if (this.isPlaying && this.ctx && !this.prerenderedSource && this.loop && !this.isInLoop(this.scheduledUntilTick)) {
+      this.startAt(this.loop.startTick);
+    }
+  }
+
+  public setTempoRamp(ramp: TempoRamp | null) {
+    this.tempoRamp = ramp;
+    this.cleanRepetitions = 0;
+  }
+
+  // Tour raté : le compteur de tours propres repart de zéro
+  public markLoopMiss() { this.cleanRepetitions = 0; }
+
+  private updateLoop() {
+    const region = this.loopRegion;
+    this.loop = region && region.endTick > region.startTick
+      ? { startTick: toPlaybackTick(this.segments, region.startTick), endTick: toPlaybackTick(this.segments, region.endTick) }
+      : null;
+    if (this.loop && this.loop.endTick <= this.loop.startTick) this.loop = null;
+  }
+
+  private isInLoop(tick: number) {
+    return !!this.loop && tick >= this.loop.startTick && tick < this.loop.endTick;
+  }
+
+  // Fin d'un tour : après `everyN` tours propres, la vitesse monte d'un palier jusqu'à la vitesse visée
+  private completeLoopRepetition() {
+    this.loopRepetition++;
+    this.cleanRepetitions++;
+    const ramp = this.tempoRamp;
+    if (!ramp || this.cleanRepetitions < ramp.everyN || this.playbackSpeed >= ramp.targetSpeed) return;
+    this.cleanRepetitions = 0;
+    this.playbackSpeed = Math.min(ramp.targetSpeed, Math.round((this.playbackSpeed + ramp.step) * 100) / 100);
+    this.updateTempoMap();
+  }
+
   public setTuning(tuning: Tuning) {
     this.currentTuning = tuning;
     if (this.ctx) this.loadSamples();
@@ -206,14 +617,67 @@ class AudioEngine {
 
   public setOnTick(cb: (tick: number) => void) { this.onTickCallback = cb; }
   public setOnEnded(cb: () => void) { this.onEndedCallback = cb; }
+  public setOnSampleStatus(cb: (status: SampleLoadStatus) => void) { this.onSampleStatusCallback = cb; }
+  public setOnLoopPass(cb: (repetition: number, speed: number) => void) { this.onLoopPassCallback = cb; }
 
   public get isAudioPlaying(): boolean { return this.isPlaying; }
 
+  // Temps (s) depuis le tick 0, selon le groove puis la carte de tempo
+  private tickTime(tick: number): number {
+    return tickToSeconds(this.tempoMap, applyGroove(this.grooveMap, tick));
+  }
+
+  // Inverse de tickTime : tick de la grille (lecture) atteint à `seconds`
+  private timeTick(seconds: number): number {
+    return removeGroove(this.grooveMap, secondsToTick(this.tempoMap, seconds));
+  }
+
   public getCurrentTick(): number {
     if (!this.ctx || !this.isPlaying) return 0;
-    const effectiveBpm = this.bpm * this.playbackSpeed;
-    const secondsPerTick = (60 / effectiveBpm) / 12;
-    return (this.ctx.currentTime - this.startTime) / secondsPerTick;
+    return toSourceTick(this.segments, this.playheadTick(this.ctx.currentTime));
+  }
+
+  /**
+   * Tick (partition) joué à l'instant `performanceTime` (horloge performance.now / event.timeStamp),
+   * corrigé de la latence de sortie : c'est ce que l'utilisateur entendait en jouant.
+   */
+  public getTickAt(performanceTime: number): number {
+    if (!this.ctx || !this.isPlaying) return 0;
+    const latency = this.ctx.outputLatency || this.ctx.baseLatency || 0;
+    const time = this.ctx.currentTime - (performance.now() - performanceTime) / 1000 - latency;
+    // Pendant le décompte, un coup anticipé tombe avant le départ
+    return toSourceTick(this.segments, time < this.countInUntil ? this.timeTick(time - this.startTime) : this.playheadTick(time));
+  }
+
+  // Tick de lecture entendu à `now` (startTime peut déjà appartenir au tour de boucle suivant)
+  private playheadTick(now: number): number {
+    if (now < this.countInUntil) return this.countInTick;
+    while (this.pendingLoopPasses.length > 0 && this.pendingLoopPasses[0].time <= now) {
+      const pass = this.pendingLoopPasses.shift()!;
+      this.displayOrigin = pass.origin;
+      this.displayTempoMap = pass.tempoMap;
+      if (this.onLoopPassCallback) this.onLoopPassCallback(pass.repetition, pass.speed);
+    }
+    return removeGroove(this.grooveMap, secondsToTick(this.displayTempoMap, now - this.displayOrigin));
+  }
+
+  // Index de la première note à partir de `tick` (notes.length si aucune)
+  private noteIndexAt(tick: number): number {
+    const index = this.notes.findIndex(n => n.tick >= tick);
+    return index === -1 ? this.notes.length : index;
+  }
+
+  // Lecture à partir d'un tick de lecture, 0.1 s après maintenant (plus la durée du décompte)
+  private startAt(playbackTick: number, countInSeconds: number = 0) {
+    if (!this.ctx) return;
+    this.startTime = this.ctx.currentTime - this.tickTime(playbackTick) + 0.1 + countInSeconds;
+    this.countInUntil = this.ctx.currentTime + 0.1 + countInSeconds;
+    this.countInTick = playbackTick;
+    this.nextNoteIndex = this.noteIndexAt(playbackTick);
+    this.scheduledUntilTick = playbackTick;
+    this.pendingLoopPasses = [];
+    this.displayOrigin = this.startTime;
+    this.displayTempoMap = this.tempoMap;
   }
 
   public async play(startTick: number = 0) {
@@ -221,30 +685,45 @@ class AudioEngine {
     if (!this.ctx) return;
     if (this.ctx.state === 'suspended') await this.ctx.resume();
     await this.loadSamples();
+    // Décompte seulement au lancement, pas quand on se déplace pendant la lecture
+    const withCountIn = !this.isPlaying;
     this.isPlaying = true;
 
-    const effectiveBpm = this.bpm * this.playbackSpeed;
-    const secondsPerTick = (60 / effectiveBpm) / 12;
-
-    const effectiveStartTick = startTick;
-    this.startTime = this.ctx.currentTime - (effectiveStartTick * secondsPerTick) + 0.1; 
-
-    this.nextNoteIndex = this.notes.findIndex(n => n.tick >= effectiveStartTick);
-    if (this.nextNoteIndex === -1) this.nextNoteIndex = this.notes.length; 
-    
-    const ticksPerBeat = TICKS_QUARTER;
-    const beatsPassed = Math.ceil(effectiveStartTick / ticksPerBeat);
-    const nextBeatTick = beatsPassed * ticksPerBeat;
-    
-    this.currentBeatIndex = beatsPassed; 
-    this.nextBeatTime = this.startTime + (nextBeatTick * secondsPerTick);
+    let effectiveStartTick = toPlaybackTick(this.segments, startTick);
+    // Boucle active : on démarre dans la région
+    if (this.loop && !this.isInLoop(effectiveStartTick)) effectiveStartTick = this.loop.startTick;
+    this.loopRepetition = 0;
+    this.cleanRepetitions = 0;
+    const countIn = withCountIn ? this.countInDuration(effectiveStartTick) : 0;
+    if (countIn > 0) this.scheduleCountIn(this.ctx, this.ctx.destination, effectiveStartTick, this.ctx.currentTime + 0.1 + countIn);
+    this.startAt(effectiveStartTick, countIn);
 
     this.schedule();
     this.updateTickUI();
   }
 
+  // Durée (s) du décompte avant `startTick` : réglages du métronome, au tempo du départ
+  private countInDuration(startTick: number): number {
+    const clicks = countInClicks(this.measureMap, this.metronome, startTick);
+    return clicks.length === 0 ? 0 : (startTick - clicks[0].tick) * 60 / (bpmAt(this.tempoMap, startTick) * TICKS_QUARTER);
+  }
+
+  /**
+   * Programme le décompte avant `startTick` (tempo du départ, sans groove), le départ tombant à
+   * `startTime` (heure de `ctx`). Lecture et export passent par ici : mêmes mesures, accents et voix.
+   */
+  private scheduleCountIn(ctx: BaseAudioContext, dest: AudioNode, startTick: number, startTime: number) {
+    const secondsPerTick = 60 / (bpmAt(this.tempoMap, startTick) * TICKS_QUARTER);
+    countInClicks(this.measureMap, this.metronome, startTick)
+      .forEach(click => this.playClick(ctx, dest, startTime - (startTick - click.tick) * secondsPerTick, click));
+  }
+
   public stop() {
     this.isPlaying = false;
+    this.countInUntil = 0;
+    this.speechTimers.forEach(id => clearTimeout(id));
+    this.speechTimers = [];
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
     if (this.schedulerId) {
       clearTimeout(this.schedulerId);
       this.schedulerId = null;
@@ -264,40 +743,28 @@ class AudioEngine {
 
     const lookahead = 100.0; 
     const scheduleAheadTime = 0.4;
-    
-    const effectiveBpm = this.bpm * this.playbackSpeed;
-    const secondsPerTick = (60 / effectiveBpm) / 12;
-    const secondsPerBeat = (60 / effectiveBpm);
-    const beatsPerMeasure = this.rhythmMode === 'binary' ? 4 : 3;
-
-    if (this.isMetronomeEnabled) {
-        while (this.nextBeatTime < this.ctx.currentTime + scheduleAheadTime) {
-            if (this.nextBeatTime >= this.ctx.currentTime - 0.05) {
-                const normalizedBeatIndex = ((this.currentBeatIndex % beatsPerMeasure) + beatsPerMeasure) % beatsPerMeasure;
-                const isAccent = normalizedBeatIndex === 0;
-                if (this.shakerBuffer) this.playShaker(this.ctx, this.ctx.destination, this.nextBeatTime, isAccent, this.shakerBuffer);
-            }
-            this.nextBeatTime += secondsPerBeat;
-            this.currentBeatIndex++;
-        }
+    let aheadTick = this.timeTick(this.ctx.currentTime + scheduleAheadTime - this.startTime);
+    // Boucle : on programme jusqu'à la fin de la région puis on repart de son début,
+    // sans trou entre les tours (notes et shaker passent par le même chemin)
+    while (this.loop && aheadTick >= this.loop.endTick) {
+        this.scheduleTicks(this.ctx, this.ctx.destination, this.startTime, this.scheduledUntilTick, this.loop.endTick, { includeMetronome: this.isMetronomeEnabled });
+        const boundary = this.startTime + this.tickTime(this.loop.endTick);
+        this.completeLoopRepetition();
+        this.startTime = boundary - this.tickTime(this.loop.startTick);
+        this.pendingLoopPasses.push({ time: boundary, origin: this.startTime, tempoMap: this.tempoMap, repetition: this.loopRepetition, speed: this.playbackSpeed });
+        this.scheduledUntilTick = this.loop.startTick;
+        this.nextNoteIndex = this.noteIndexAt(this.loop.startTick);
+        aheadTick = this.timeTick(this.ctx.currentTime + scheduleAheadTime - this.startTime);
     }
-
-    while (this.nextNoteIndex < this.notes.length) {
-      const note = this.notes[this.nextNoteIndex];
-      const noteTime = this.startTime + (note.tick * secondsPerTick);
-
-      if (noteTime < this.ctx.currentTime + scheduleAheadTime) {
-        this.playNote(this.ctx, this.ctx.destination, note, noteTime);
-        this.nextNoteIndex++;
-      } else {
-        break;
-      }
+    if (aheadTick > this.scheduledUntilTick) {
+        this.scheduleTicks(this.ctx, this.ctx.destination, this.startTime, this.scheduledUntilTick, aheadTick, { includeMetronome: this.isMetronomeEnabled });
+        this.scheduledUntilTick = aheadTick;
     }
     
-    if (this.nextNoteIndex >= this.notes.length) {
+    if (!this.loop && this.nextNoteIndex >= this.notes.length) {
         const lastNote = this.notes[this.notes.length - 1];
         if (lastNote) {
-            const endTime = this.startTime + (lastNote.tick * secondsPerTick) + 0.5;
+            const endTime = this.startTime + this.tickTime(lastNote.tick) + 0.5;
             if (this.ctx.currentTime > endTime) {
                 this.stop();
                 if (this.onEndedCallback) this.onEndedCallback();
@@ -315,38 +782,70 @@ class AudioEngine {
 
   private updateTickUI = () => {
     if (!this.isPlaying || !this.ctx) return;
-    const effectiveBpm = this.bpm * this.playbackSpeed;
-    const secondsPerTick = (60 / effectiveBpm) / 12;
-    const currentTick = (this.ctx.currentTime - this.startTime) / secondsPerTick;
+    const currentTick = toSourceTick(this.segments, this.playheadTick(this.ctx.currentTime));
     
     if (this.onTickCallback) this.onTickCallback(currentTick);
     this.animationFrameId = requestAnimationFrame(this.updateTickUI);
   }
 
+  /**
+   * Chemin commun à la lecture et à l'export : joue les notes et les temps du métronome
+   * dont le tick est dans [fromTick, toTick). `origin` est l'heure (ctx) du tick 0.
+   */
+  private scheduleTicks(ctx: BaseAudioContext, dest: AudioNode, origin: number, fromTick: number, toTick: number, options: RenderOptions) {
+    // Métronome : les temps, leurs accents et leurs subdivisions suivent la carte des mesures (MESURE)
+    if (options.includeMetronome) clicksInRange(this.measureMap, this.metronome, Math.max(0, fromTick), toTick).forEach(click => {
+        const clickTime = origin + this.tickTime(click.tick);
+        if (clickTime < ctx.currentTime - 0.05) return;
+        this.playClick(ctx, dest, clickTime, click);
+    });
+
+    while (this.nextNoteIndex < this.notes.length && this.notes[this.nextNoteIndex].tick < toTick) {
+        const note = this.notes[this.nextNoteIndex];
+        if (note.tick >= fromTick) this.playNote(ctx, dest, note, origin + this.tickTime(note.tick));
+        this.nextNoteIndex++;
+    }
+  }
+
+  // Étouffement (STOP) : la corde est coupée par un court fondu à la fin de sa durée
+  private applyDamping(source: AudioBufferSourceNode, gain: GainNode, note: ParsedNote, time: number, level: number) {
+    if (note.duration <= 0) return;
+    const releaseStart = time + this.tickTime(note.tick + note.duration) - this.tickTime(note.tick);
+    gain.gain.setValueAtTime(level, releaseStart);
+    gain.gain.linearRampToValueAtTime(0, releaseStart + DAMPING_RELEASE);
+    source.stop(releaseStart + DAMPING_RELEASE + 0.01);
+  }
+
   private playNote(ctx: BaseAudioContext, dest: AudioNode, note: ParsedNote, time: number) {
     if (time < ctx.currentTime - 0.05) return;
     const noteName = this.currentTuning[note.stringId];
     if (!noteName) return; 
     
-    // Explicit string cast
-    const buffer = this.stringBuffers[noteName as string];
-    if (!buffer) return;
+    const mix = channelMix(this.mixer, note.stringId);
+    if (mix.gain <= 0) return;
+    const voice = this.voiceFor(ctx, noteName);
+    if (!voice) return;
 
     const source = ctx.createBufferSource();
-    source.buffer = buffer;
+    source.buffer = voice.buffer;
+    source.playbackRate.value = voice.playbackRate;
     const gain = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = mix.pan;
     
-    const velocity = 0.35 + Math.random() * 0.1; 
-    gain.gain.value = velocity;
+    const velocity = velocityToGain(note) * voice.gain * mix.gain;
+    gain.gain.setValueAtTime(velocity, time);
 
     source.connect(gain);
-    gain.connect(dest);
+    gain.connect(panner);
+    panner.connect(dest);
     
     if (this.dest && ctx === this.ctx && !this.prerenderedSource) {
-        gain.connect(this.dest);
+        panner.connect(this.dest);
     }
 
     source.start(time);
+    this.applyDamping(source, gain, note, time, velocity);
   }
 
   public async previewString(stringId: string) {
@@ -358,50 +857,54 @@ class AudioEngine {
       const noteName = this.currentTuning[stringId];
       if (!noteName) return;
       
-      // Cast for safety
-      if (!this.stringBuffers[noteName as string]) {
+      if (!this.ctx) return;
+      if (this.voice === 'samples' && !this.stringBuffers[bufferKey(this.resolveSample(noteName))]) {
           await this.loadSamples();
       }
 
-      const buffer = this.stringBuffers[noteName as string];
-      if (buffer && this.ctx) {
+      const mix = channelMix(this.mixer, stringId);
+      const voice = this.voiceFor(this.ctx, noteName);
+      if (voice && mix.gain > 0) {
           const source = this.ctx.createBufferSource();
-          source.buffer = buffer;
+          source.buffer = voice.buffer;
+          source.playbackRate.value = voice.playbackRate;
           const gain = this.ctx.createGain();
-          gain.gain.value = 0.4;
+          gain.gain.value = NOTE_GAIN * voice.gain * mix.gain;
+          const panner = this.ctx.createStereoPanner();
+          panner.pan.value = mix.pan;
           source.connect(gain);
-          gain.connect(this.ctx.destination);
+          gain.connect(panner);
+          panner.connect(this.ctx.destination);
           source.start();
       }
   }
 
-  public async renderProjectToBuffer(): Promise<AudioBuffer | null> {
+  // Rendu hors-ligne par le même chemin que la lecture (scheduleCountIn / scheduleTicks / playNote)
+  public async renderProjectToBuffer(options: RenderOptions = {}): Promise<AudioBuffer | null> {
     if (this.notes.length === 0) return null;
     await this.loadSamples();
 
-    const lastNote = this.notes[this.notes.length - 1];
-    const effectiveBpm = this.bpm * this.playbackSpeed; 
-    
-    const secondsPerTick = (60 / effectiveBpm) / 12;
-    const duration = (lastNote.tick * secondsPerTick) + 3.0; 
-
-    const sampleRate = this.ctx ? this.ctx.sampleRate : 44100;
-    const offlineCtx = new OfflineAudioContext(2, sampleRate * duration, sampleRate);
-    
-    this.notes.forEach(note => {
-        const noteTime = note.tick * secondsPerTick;
-        const noteName = this.currentTuning[note.stringId];
-        // Safe check with cast
-        if (noteName && this.stringBuffers[noteName as string]) {
-           const source = offlineCtx.createBufferSource();
-           source.buffer = this.stringBuffers[noteName as string];
-           const gain = offlineCtx.createGain();
-           gain.gain.value = 0.4;
-           source.connect(gain);
-           gain.connect(offlineCtx.destination);
-           source.start(noteTime);
-        }
-    });
+    // Vitesse imposée : carte de tempo propre au rendu, le temps de la programmation (synchrone)
+    const liveTempoMap = this.tempoMap;
+    if (options.speed !== undefined) this.tempoMap = buildTempoMap(this.tempoEvents, this.bpm, options.speed);
+    const savedIndex = this.nextNoteIndex;
+    let offlineCtx: OfflineAudioContext;
+    try {
+      const lastNote = this.notes[this.notes.length - 1];
+      const countIn = options.countIn ? this.countInDuration(0) : 0;
+      const duration = this.tickTime(lastNote.tick) + (options.tailSeconds ?? DEFAULT_TAIL_SECONDS);
+
+      const sampleRate = this.ctx ? this.ctx.sampleRate : 44100;
+      offlineCtx = new OfflineAudioContext(2, Math.ceil(sampleRate * (countIn + duration)), sampleRate);
+
+      this.nextNoteIndex = 0;
+      this.renderedCountIn = countIn;
+      if (countIn > 0) this.scheduleCountIn(offlineCtx, offlineCtx.destination, 0, countIn);
+      this.scheduleTicks(offlineCtx, offlineCtx.destination, countIn, 0, this.timeTick(duration), options);
+    } finally {
+      this.nextNoteIndex = savedIndex;
+      this.tempoMap = liveTempoMap;
+    }
 
     const renderedBuffer = await offlineCtx.startRendering();
     return renderedBuffer;
@@ -424,10 +927,14 @@ class AudioEngine {
       
       source.connect(this.dest);
 
-      const effectiveBpm = this.bpm * this.playbackSpeed; 
-      const secondsPerTick = (60 / effectiveBpm) / 12;
       
-      this.startTime = this.ctx.currentTime;
+      // Le rendu peut commencer par le décompte : le curseur attend le tick 0
+      this.startTime = this.ctx.currentTime + this.renderedCountIn;
+      this.countInUntil = this.startTime;
+      this.countInTick = 0;
+      this.pendingLoopPasses = [];
+      this.displayOrigin = this.startTime;
+      this.displayTempoMap = this.tempoMap;
       
       source.onended = () => {
           this.stop();
@@ -438,21 +945,62 @@ class AudioEngine {
       this.updateTickUI(); 
   }
 
-  public async exportWav(): Promise<Blob | null> {
-      const savedSpeed = this.playbackSpeed;
-      this.playbackSpeed = 1.0; 
-      const buffer = await this.renderProjectToBuffer();
-      this.playbackSpeed = savedSpeed;
+  // Exports audio toujours à x1, quelle que soit la vitesse d'entraînement
+  public async exportWav(options: RenderOptions = {}): Promise<Blob | null> {
+      const buffer = await this.renderProjectToBuffer({ ...options, speed: 1 });
 
       if (!buffer) return null;
       return bufferToWave(buffer, buffer.length);
   }
 
-  public async exportMp3(): Promise<Blob | null> {
-      const savedSpeed = this.playbackSpeed;
-      this.playbackSpeed = 1.0;
-      const buffer = await this.renderProjectToBuffer();
-      this.playbackSpeed = savedSpeed;
+  // SMF type 1 : piste tempo/mesure/marqueurs TXT + une piste par main
+  public exportMidi(): Blob | null {
+      if (this.notes.length === 0) return null;
+
+      const hands: { hand: 'G' | 'D'; name: string }[] = [
+          { hand: 'G', name: 'Main gauche' },
+          { hand: 'D', name: 'Main droite' }
+      ];
+      const tracks: MidiTrackData[] = hands.map(({ hand, name }, channel) => {
+          const handNotes = this.notes.filter(n => STRING_CONFIGS.some(s => s.stringId === n.stringId && s.hand === hand));
+          return {
+              name,
+              channel,
+              notes: handNotes.flatMap(note => {
+                  const conf = STRING_CONFIGS.find(s => s.stringId === note.stringId)!;
+                  const midi = noteNameToMidi(this.currentTuning[note.stringId] || conf.note);
+                  if (midi === null) return [];
+                  // La corde résonne jusqu'à son étouffement ou sa prochaine attaque (au plus une ronde)
+                  const next = handNotes.find(n => n.tick > note.tick && n.stringId === note.stringId);
+                  const ringing = Math.min(TICKS_QUARTER * 4, next ? next.tick - note.tick : TICKS_QUARTER * 4);
+                  const duration = note.duration > 0 ? Math.min(note.duration, ringing) : ringing;
+                  return [{ tick: note.tick, duration, midi, velocity: note.velocity ?? DEFAULT_VELOCITY }];
+              })
+          };
+      });
+
+      // Tempo à vitesse réelle ; les rampes ACCEL / RIT sont découpées par double croche
+      const tempoMap = buildTempoMap(this.tempoEvents, this.bpm);
+      const tempos = tempoMap.flatMap(segment => {
+          if (segment.startBpm === segment.endBpm) return [{ tick: segment.startTick, bpm: segment.startBpm }];
+          const steps: { tick: number; bpm: number }[] = [];
+          for (let tick = segment.startTick; tick < segment.endTick; tick += 3) {
+              steps.push({ tick, bpm: bpmAt(tempoMap, Math.min(segment.endTick, tick + 1.5)) });
+          }
+          return steps;
+      });
+
+      const bytes = writeMidiFile({
+          tempos,
+          meters: this.measureMap.map((m, i) => ({ tick: i === 0 ? 0 : m.startTick, numerator: m.numerator, denominator: m.denominator })),
+          markers: this.textMarkers.map(m => ({ tick: m.tick, text: m.message || '' })),
+          tracks
+      });
+      return new Blob([bytes], { type: 'audio/midi' });
+  }
+
+  public async exportMp3(options: RenderOptions = {}): Promise<Blob | null> {
+      const buffer = await this.renderProjectToBuffer({ ...options, speed: 1 });
       
       if (!buffer) return null;
 
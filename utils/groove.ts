@@ -0,0 +1,63 @@
+import { Groove, GrooveSegment, ParsedNote, TICKS_QUARTER } from '../types';
+import { GROOVE_TEMPLATES } from '../constants';
+
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+
+const STRAIGHT = [0, 0.25, 0.5, 0.75];
+
+export const isValidGroove = (groove: Groove) =>
+  GROOVE_TEMPLATES.some(t => t.id === groove.template) && groove.swing >= MIN_SWING && groove.swing <= MAX_SWING;
+
+// Position (fraction du temps) des 4 doubles croches d'un temps
+export const groovePositions = (groove: Groove): number[] => {
+  const swing = Math.min(MAX_SWING, Math.max(MIN_SWING, groove.swing)) / 100;
+  if (groove.template === 'swing') return [0, swing / 2, swing, (1 + swing) / 2];
+  if (groove.template === 'swing16') return [0, swing / 2, 0.5, 0.5 + swing / 2];
+  return GROOVE_TEMPLATES.find(t => t.id === groove.template)?.positions || STRAIGHT;
+};
+
+/**
+ * Carte de groove : le groove du projet jusqu'à la première commande GROOVE,
+ * chaque commande prend effet au temps suivant (les temps ne bougent jamais).
+ */
+export const buildGrooveMap = (events: ParsedNote[], projectGroove: Groove): GrooveSegment[] => {
+  const segments: GrooveSegment[] = [{ startTick: -Infinity, endTick: Infinity, positions: groovePositions(projectGroove) }];
+  events
+    .filter(e => e.stringId === 'GROOVE' && e.groove)
+    .sort((a, b) => a.tick - b.tick)
+    .forEach(change => {
+      const startTick = Math.ceil(change.tick / TICKS_QUARTER) * TICKS_QUARTER;
+      const previous = segments[segments.length - 1];
+      if (startTick === previous.startTick) {
+        previous.positions = groovePositions(change.groove!);
+        return;
+      }
+      previous.endTick = startTick;
+      segments.push({ startTick, endTick: Infinity, positions: groovePositions(change.groove!) });
+    });
+  return segments;
+};
+
+const segmentAt = (map: GrooveSegment[], tick: number) =>
+  map.find(s => tick < s.endTick) || map[map.length - 1];
+
+// Tick de la grille -> tick joué (interpolation linéaire entre les doubles croches du temps)
+export const applyGroove = (map: GrooveSegment[], tick: number): number => {
+  const beat = Math.floor(tick / TICKS_QUARTER) * TICKS_QUARTER;
+  const points = [...segmentAt(map, beat).positions, 1];
+  const x = ((tick - beat) / TICKS_QUARTER) * 4;
+  const k = Math.min(3, Math.floor(x));
+  return beat + (points[k] + (x - k) * (points[k + 1] - points[k])) * TICKS_QUARTER;
+};
+
+// Inverse de applyGroove (position de lecture -> tick de la grille)
+export const removeGroove = (map: GrooveSegment[], tick: number): number => {
+  const beat = Math.floor(tick / TICKS_QUARTER) * TICKS_QUARTER;
+  const points = [...segmentAt(map, beat).positions, 1];
+  const y = (tick - beat) / TICKS_QUARTER;
+  let k = 3;
+  while (k > 0 && points[k] > y) k--;
+  const span = points[k + 1] - points[k];
+  return beat + ((k + (span > 0 ? (y - points[k]) / span : 0)) / 4) * TICKS_QUARTER;
+};
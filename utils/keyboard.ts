@@ -0,0 +1,34 @@
+import { KeyboardLayout } from '../types';
+
+// Libellés des touches hors lettres et chiffres, sur un clavier QWERTY (repli sans Keyboard Map API)
+const CODE_LABELS: Record<string, string> = {
+  Semicolon: ';', Quote: "'", Backslash: '\\', BracketLeft: '[', BracketRight: ']', Comma: ',',
+  Period: '.', Slash: '/', Minus: '-', Equal: '=', Backquote: '`', IntlBackslash: '<', Space: '␣'
+};
+
+/**
+ * Libellé d'une touche physique : celui de la disposition active quand le navigateur la fournit
+ * (`layoutMap`, Keyboard Map API), sinon le libellé QWERTY du code.
+ */
+export const keyLabel = (code: string, layoutMap?: Map<string, string> | null): string => {
+  const mapped = layoutMap?.get(code);
+  if (mapped) return mapped.toUpperCase();
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Pavé ${code.slice(6)}`;
+  return CODE_LABELS[code] ?? code;
+};
+
+// Touches réservées : modificateurs, navigation et édition ne deviennent jamais des cordes
+export const isAssignableKey = (code: string): boolean =>
+  !/^(Shift|Control|Alt|Meta|OS|CapsLock|Tab|Enter|Escape|Backspace|Delete|Arrow|Page|Home|End|Insert|F\d)/.test(code);
+
+// Apprentissage : la touche joue désormais `stringId` (une touche par corde, une corde par touche)
+export const assignKey = (layout: KeyboardLayout, code: string, stringId: string): KeyboardLayout => {
+  const kept = Object.fromEntries(Object.entries(layout).filter(([c, id]) => id !== stringId && c !== code));
+  return { ...kept, [code]: stringId };
+};
+
+// Touche de la corde (undefined si aucune)
+export const keyForString = (layout: KeyboardLayout, stringId: string): string | undefined =>
+  Object.entries(layout).find(([, id]) => id === stringId)?.[0];
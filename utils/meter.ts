@@ -0,0 +1,76 @@
+import { ParsedNote, Meter, MeterSegment, BeatInfo, TICKS_QUARTER, TICKS_COUNT_IN } from '../types';
+
+// Ronde = 4 noires : ticks d'une unité de mesure (4 -> 12, 8 -> 6, 2 -> 24)
+const unitTicks = (denominator: number) => (TICKS_QUARTER * 4) / denominator;
+
+// 6/8, 9/8, 12/8 : temps à la noire pointée (3 croches)
+const isCompound = (meter: Meter) => meter.denominator === 8 && meter.numerator % 3 === 0 && meter.numerator > 3;
+
+export const meterFromRhythmMode = (rhythmMode: 'binary' | 'ternary'): Meter =>
+  rhythmMode === 'binary' ? { numerator: 4, denominator: 4 } : { numerator: 3, denominator: 4 };
+
+export const isValidMeter = (meter: Meter) =>
+  meter.numerator >= 1 && meter.numerator <= 32 && [1, 2, 4, 8, 16].includes(meter.denominator);
+
+const makeSegment = (meter: Meter, startTick: number, firstMeasure: number): MeterSegment => {
+  const unit = unitTicks(meter.denominator);
+  return {
+    ...meter,
+    startTick,
+    endTick: Infinity,
+    beatTicks: isCompound(meter) ? unit * 3 : unit,
+    measureTicks: meter.numerator * unit,
+    firstMeasure
+  };
+};
+
+/**
+ * Carte des mesures : la mesure 1 commence après le décompte (`originTick`),
+ * chaque commande MESURE ouvre une nouvelle mesure à son tick (la mesure en cours est écourtée).
+ */
+export const buildMeasureMap = (events: ParsedNote[], defaultMeter: Meter, originTick: number = TICKS_COUNT_IN): MeterSegment[] => {
+  const changes = events
+    .filter(e => e.stringId === 'MESURE' && e.meter)
+    .sort((a, b) => a.tick - b.tick);
+
+  const initial = changes.filter(c => c.tick <= originTick).pop();
+  const segments: MeterSegment[] = [makeSegment(initial?.meter || defaultMeter, originTick, 1)];
+
+  changes.filter(c => c.tick > originTick).forEach(change => {
+    const previous = segments[segments.length - 1];
+    if (change.tick === previous.startTick) {
+      segments[segments.length - 1] = makeSegment(change.meter!, previous.startTick, previous.firstMeasure);
+      return;
+    }
+    previous.endTick = change.tick;
+    const measures = Math.ceil((change.tick - previous.startTick) / previous.measureTicks);
+    segments.push(makeSegment(change.meter!, change.tick, previous.firstMeasure + measures));
+  });
+
+  return segments;
+};
+
+export const meterAt = (map: MeterSegment[], tick: number): MeterSegment =>
+  map.find(s => tick < s.endTick) || map[map.length - 1];
+
+// Temps (pulsations) dont le tick est dans [fromTick, toTick), avec leur numéro de mesure
+export const beatsInRange = (map: MeterSegment[], fromTick: number, toTick: number): BeatInfo[] => {
+  const beats: BeatInfo[] = [];
+  map.forEach((segment, i) => {
+    // Le premier segment s'étend aussi avant la mesure 1 (décompte)
+    const start = i === 0 ? -Infinity : segment.startTick;
+    const from = Math.max(fromTick, start);
+    const to = Math.min(toTick, segment.endTick);
+    if (from >= to) return;
+
+    const firstBeat = Math.ceil((from - segment.startTick) / segment.beatTicks);
+    for (let b = firstBeat; segment.startTick + b * segment.beatTicks < to; b++) {
+      const tick = segment.startTick + b * segment.beatTicks;
+      const beatsPerMeasure = segment.measureTicks / segment.beatTicks;
+      const measureOffset = Math.floor(b / beatsPerMeasure);
+      const beat = b - measureOffset * beatsPerMeasure + 1;
+      beats.push({ tick, measure: segment.firstMeasure + measureOffset, beat, isDownbeat: beat === 1, beatTicks: segment.beatTicks });
+    }
+  });
+  return beats;
+};
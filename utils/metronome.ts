@@ -0,0 +1,59 @@
+import { AccentLevel, Meter, MeterSegment, MetronomeClick, MetronomeSettings } from '../types';
+import { beatsInRange, meterAt } from './meter';
+
+// Plus long temps possible (x/1) : marge pour retrouver les subdivisions d'un temps commencé avant fromTick
+const MAX_BEAT_TICKS = 48;
+
+export const meterKey = (meter: Meter) => `${meter.numerator}/${meter.denominator}`;
+
+// Temps par mesure (6/8 -> 2 temps à la noire pointée)
+export const beatsPerMeasure = (segment: MeterSegment) => Math.round(segment.measureTicks / segment.beatTicks);
+
+// Accents par défaut : 1er temps fort, temps du milieu moyen pour les mesures paires de 4 temps et plus
+export const defaultAccents = (count: number): AccentLevel[] =>
+  Array.from({ length: count }, (_, i) => (i === 0 ? 3 : count >= 4 && count % 2 === 0 && i === count / 2 ? 2 : 1));
+
+// Accents du chiffrage : motif personnalisé s'il a le bon nombre de temps, sinon le motif par défaut
+export const accentPattern = (settings: MetronomeSettings, segment: MeterSegment): AccentLevel[] => {
+  const count = beatsPerMeasure(segment);
+  const custom = settings.accents[meterKey(segment)];
+  return custom && custom.length === count ? custom : defaultAccents(count);
+};
+
+const beatClicks = (settings: MetronomeSettings, tick: number, beatTicks: number, beat: number, level: AccentLevel): MetronomeClick[] => {
+  const subdivision = Math.max(1, Math.round(settings.subdivision));
+  return Array.from({ length: subdivision }, (_, k) => ({
+    tick: tick + (k * beatTicks) / subdivision,
+    beat,
+    level: k === 0 || level === 0 ? level : 1,
+    isSubdivision: k > 0
+  }));
+};
+
+// Clics du métronome dont le tick est dans [fromTick, toTick) : temps accentués selon la mesure, puis subdivisions
+export const clicksInRange = (map: MeterSegment[], settings: MetronomeSettings, fromTick: number, toTick: number): MetronomeClick[] =>
+  beatsInRange(map, fromTick - MAX_BEAT_TICKS, toTick).flatMap(beat => {
+    const segment = meterAt(map, beat.tick);
+    const level = accentPattern(settings, segment)[beat.beat - 1] ?? 1;
+    return beatClicks(settings, beat.tick, beat.beatTicks, beat.beat, level)
+      .filter(click => click.tick >= fromTick && click.tick < toTick && click.tick < segment.endTick);
+  });
+
+/**
+ * Décompte avant `startTick` : `settings.countInBars` mesures du chiffrage en vigueur, numérotées
+ * pour que le départ tombe sur son temps. Les ticks sont virtuels (avant le départ, au tempo du départ).
+ */
+export const countInClicks = (map: MeterSegment[], settings: MetronomeSettings, startTick: number): MetronomeClick[] => {
+  const segment = meterAt(map, startTick);
+  const perMeasure = beatsPerMeasure(segment);
+  const pattern = accentPattern(settings, segment);
+  const startBeat = Math.floor((startTick - segment.startTick) / segment.beatTicks);
+  const total = Math.max(0, Math.round(settings.countInBars)) * perMeasure;
+
+  const clicks: MetronomeClick[] = [];
+  for (let n = total; n > 0; n--) {
+    const index = (((startBeat - n) % perMeasure) + perMeasure) % perMeasure;
+    clicks.push(...beatClicks(settings, startTick - n * segment.beatTicks, segment.beatTicks, index + 1, pattern[index] ?? 1));
+  }
+  return clicks;
+};
@@ -0,0 +1,248 @@
+
+import { SCALES_PRESETS, STRING_CONFIGS } from "../constants";
+import { MidiImportResult, MidiTrackData, ParsedNote, Tuning, TICKS_QUARTER, TICKS_COUNT_IN } from "../types";
+
+// --- NOTES <-> NUMÉROS MIDI ---
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "G#4" -> 68 (C4 = 60, comme l'entrée MIDI temps réel)
+export const noteNameToMidi = (note: string): number | null => {
+  const match = note.match(/^([A-G])([#b]?)(-?\d)$/);
+  if (!match) return null;
+  const alter = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return (parseInt(match[3], 10) + 1) * 12 + SEMITONES[match[1]] + alter;
+};
+
+export const midiToNoteName = (midi: number) => `${NOTE_NAMES[midi % 12]}${Math.floor((midi - 12) / 12)}`;
+
+// Corde jouant ce numéro MIDI dans l'accordage donné
+export const midiToStringId = (midi: number, tuning: Tuning): string | undefined => {
+  const conf = STRING_CONFIGS.find(s => noteNameToMidi(tuning[s.stringId] || s.note) === midi);
+  return conf?.stringId;
+};
+
+// --- LECTURE DU FICHIER (.mid) ---
+
+interface MidiNoteOn {
+  tick: number; // Ticks du fichier (division par noire du header)
+  midi: number;
+  velocity: number;
+}
+
+class MidiReader {
+  private view: DataView;
+  pos = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  get length() { return this.view.byteLength; }
+  uint8() { return this.view.getUint8(this.pos++); }
+  uint16() { const v = this.view.getUint16(this.pos); this.pos += 2; return v; }
+  uint32() { const v = this.view.getUint32(this.pos); this.pos += 4; return v; }
+  text(length: number) {
+    let s = '';
+    for (let i = 0; i < length; i++) s += String.fromCharCode(this.uint8());
+    return s;
+  }
+  // Variable-length quantity (7 bits per byte, high bit = continuation)
+  varLength() {
+    let value = 0;
+    let byte = 0;
+    do {
+      byte = this.uint8();
+      value = (value << 7) | (byte & 0x7F);
+    } while (byte & 0x80);
+    return value;
+  }
+}
+
+/**
+ * Lit un Standard MIDI File (format 0 ou 1) et renvoie ses note-on, toutes pistes confondues.
+ * Lève une erreur si le fichier n'est pas un SMF ou utilise une division SMPTE.
+ */
+export const readMidiFile = (buffer: ArrayBuffer): { division: number; notes: MidiNoteOn[] } => {
+  const reader = new MidiReader(buffer);
+  if (reader.length < 14 || reader.text(4) !== 'MThd') throw new Error("Fichier MIDI invalide (en-tête MThd absent).");
+
+  const headerLength = reader.uint32();
+  reader.uint16(); // Format (0, 1 ou 2 : toutes les pistes sont fusionnées)
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.pos = 8 + headerLength;
+  if (division & 0x8000) throw new Error("Division temporelle SMPTE non supportée.");
+
+  const notes: MidiNoteOn[] = [];
+  for (let track = 0; track < trackCount && reader.pos + 8 <= reader.length; track++) {
+    const chunkType = reader.text(4);
+    const chunkLength = reader.uint32();
+    const chunkEnd = Math.min(reader.length, reader.pos + chunkLength);
+    if (chunkType !== 'MTrk') { reader.pos = chunkEnd; continue; }
+
+    let tick = 0;
+    let runningStatus = 0;
+    while (reader.pos < chunkEnd) {
+      tick += reader.varLength();
+      let status = reader.uint8();
+      if (status < 0x80) {
+        // Running status: the byte just read is the first data byte
+        status = runningStatus;
+        reader.pos--;
+      }
+
+      if (status === 0xFF) {
+        const type = reader.uint8();
+        const length = reader.varLength();
+        reader.pos += length;
+        if (type === 0x2F) break; // End of track
+      } else if (status === 0xF0 || status === 0xF7) {
+        reader.pos += reader.varLength();
+      } else {
+        runningStatus = status;
+        const command = status & 0xF0;
+        const data1 = reader.uint8();
+        const data2 = command === 0xC0 || command === 0xD0 ? 0 : reader.uint8();
+        if (command === 0x90 && data2 > 0) notes.push({ tick, midi: data1, velocity: data2 });
+      }
+    }
+    reader.pos = chunkEnd;
+  }
+
+  return { division, notes: notes.sort((a, b) => a.tick - b.tick) };
+};
+
+// --- IMPORT EN TABLATURE ---
+
+// Aligne sur la grille la plus proche : doubles croches (3 ticks) ou triolets (4 ticks)
+export const quantizeTick = (tick: number) => {
+  const sixteenth = Math.round(tick / 3) * 3;
+  const triplet = Math.round(tick / 4) * 4;
+  return Math.abs(triplet - tick) < Math.abs(sixteenth - tick) ? triplet : sixteenth;
+};
+
+/**
+ * Convertit un fichier MIDI en notes de tablature (ticks absolus, décompte inclus),
+ * prêtes pour regenerateCodeFromAbsolutePositions. Les hauteurs sans corde dans
+ * l'accordage sont listées et la gamme prédéfinie qui en couvre le plus est proposée.
+ */
+export const importMidiFile = (buffer: ArrayBuffer, tuning: Tuning): MidiImportResult => {
+  const { division, notes: events } = readMidiFile(buffer);
+  if (events.length === 0) return { notes: [], unmapped: [] };
+
+  const quantized = events.map(e => ({ ...e, tick: quantizeTick((e.tick / division) * TICKS_QUARTER) }));
+  // Décale au début de la partition en gardant la position dans le temps (anacrouse)
+  const shift = TICKS_COUNT_IN - Math.floor(quantized[0].tick / TICKS_QUARTER) * TICKS_QUARTER;
+
+  const notes: ParsedNote[] = [];
+  const used = new Set<string>();
+  const unmappedCounts = new Map<string, number>();
+
+  quantized.forEach((e, i) => {
+    const stringId = midiToStringId(e.midi, tuning);
+    if (!stringId) {
+      const name = midiToNoteName(e.midi);
+      unmappedCounts.set(name, (unmappedCounts.get(name) || 0) + 1);
+      return;
+    }
+    const tick = e.tick + shift;
+    const key = `${tick}-${stringId}`;
+    if (used.has(key)) return;
+    used.add(key);
+    notes.push({ id: `midi-${i}`, tick, duration: 0, stringId, lineIndex: -1 });
+  });
+
+  const unmapped = Array.from(unmappedCounts.entries())
+    .map(([pitch, count]) => ({ pitch, count }))
+    .sort((a, b) => b.count - a.count);
+
+  let suggestedScale: string | undefined = undefined;
+  if (unmapped.length > 0) {
+    const coverage = (t: Tuning) => quantized.filter(e => midiToStringId(e.midi, t)).length;
+    const best = SCALES_PRESETS
+      .map(preset => ({ name: preset.name, covered: coverage(preset.tuning) }))
+      .sort((a, b) => b.covered - a.covered)[0];
+    if (best && best.covered > coverage(tuning)) suggestedScale = best.name;
+  }
+
+  return { notes, unmapped, suggestedScale };
+};
+
+// --- ÉCRITURE DU FICHIER (.mid) ---
+
+const EXPORT_DIVISION = TICKS_QUARTER * 40; // 480 ticks par noire
+
+const writeVarLength = (value: number): number[] => {
+  const bytes = [value & 0x7F];
+  value >>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7F) | 0x80);
+    value >>= 7;
+  }
+  return bytes;
+};
+
+const writeUint32 = (value: number) => [(value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF];
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+// Événements absolus -> chunk MTrk (deltas, fin de piste)
+const buildTrack = (events: { tick: number; order: number; bytes: number[] }[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(e => {
+    const tick = Math.max(lastTick, Math.round(e.tick * EXPORT_DIVISION / TICKS_QUARTER));
+    data.push(...writeVarLength(tick - lastTick), ...e.bytes);
+    lastTick = tick;
+  });
+  data.push(0x00, 0xFF, 0x2F, 0x00);
+  return [...textBytes('MTrk'), ...writeUint32(data.length), ...data];
+};
+
+const trackName = (name: string) => {
+  const bytes = textBytes(name);
+  return [0xFF, 0x03, ...writeVarLength(bytes.length), ...bytes];
+};
+
+/**
+ * Écrit un Standard MIDI File de type 1 : une piste de conduite (tempos, mesure,
+ * marqueurs) suivie d'une piste par entrée de `tracks`.
+ */
+export const writeMidiFile = (options: {
+  tempos: { tick: number; bpm: number }[];
+  meters: { tick: number; numerator: number; denominator: number }[];
+  markers: { tick: number; text: string }[];
+  tracks: MidiTrackData[];
+}): Uint8Array<ArrayBuffer> => {
+  const conductor = buildTrack([
+    { tick: 0, order: 0, bytes: trackName('Tempo') },
+    ...options.tempos.map(t => {
+      const microsecondsPerQuarter = Math.round(60000000 / t.bpm);
+      return { tick: t.tick, order: 1, bytes: [0xFF, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xFF, (microsecondsPerQuarter >> 8) & 0xFF, microsecondsPerQuarter & 0xFF] };
+    }),
+    // nn/2^dd, clocks per click (24 per quarter), 8 thirty-seconds per quarter
+    ...options.meters.map(m => {
+      const clocks = m.denominator === 8 && m.numerator % 3 === 0 && m.numerator > 3 ? 36 : (24 * 4) / m.denominator;
+      return { tick: m.tick, order: 2, bytes: [0xFF, 0x58, 0x04, m.numerator, Math.round(Math.log2(m.denominator)), clocks, 8] };
+    }),
+    ...options.markers.map(m => {
+      const bytes = textBytes(m.text);
+      return { tick: m.tick, order: 3, bytes: [0xFF, 0x06, ...writeVarLength(bytes.length), ...bytes] };
+    })
+  ]);
+
+  const tracks = options.tracks.map(track => buildTrack([
+    { tick: 0, order: 0, bytes: trackName(track.name) },
+    ...track.notes.flatMap(n => [
+      // Note-offs before note-ons on the same tick
+      { tick: n.tick + n.duration, order: 1, bytes: [0x80 | track.channel, n.midi, 0] },
+      { tick: n.tick, order: 2, bytes: [0x90 | track.channel, n.midi, n.velocity] }
+    ])
+  ]));
+
+  const header = [...textBytes('MThd'), ...writeUint32(6), 0x00, 0x01, 0x00, tracks.length + 1, (EXPORT_DIVISION >> 8) & 0xFF, EXPORT_DIVISION & 0xFF];
+  return new Uint8Array([...header, ...conductor, ...tracks.flat()]);
+};
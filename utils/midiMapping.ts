@@ -0,0 +1,71 @@
+import { MidiAction, MidiInputEvent, MidiMappingProfile, Tuning } from '../types';
+import { MIDI_PROFILE_PRESETS } from '../constants';
+import { midiToStringId } from './midi';
+
+// Vrai pour les profils fournis : modifiables, mais jamais supprimés
+export const isPresetProfile = (id: string): boolean => MIDI_PROFILE_PRESETS.some(p => p.id === id);
+
+/**
+ * Fusionne les profils enregistrés avec les profils fournis, par id : une version modifiée
+ * d'un profil fourni le remplace à sa place, les profils de l'utilisateur suivent. Les profils
+ * fournis absents de la sauvegarde (ajoutés depuis) restent donc disponibles.
+ */
+export const mergeMidiProfiles = (saved: MidiMappingProfile[]): MidiMappingProfile[] => [
+  ...MIDI_PROFILE_PRESETS.map(preset => saved.find(p => p.id === preset.id) ?? preset),
+  ...saved.filter(p => !isPresetProfile(p.id))
+];
+
+// Canal (1-16) d'un message de canal, null pour les messages système
+export const messageChannel = (status: number): number | null =>
+  status >= 0x80 && status < 0xF0 ? (status & 0x0F) + 1 : null;
+
+// Nuance écrite d'après la vélocité : '>' au-dessus du seuil d'accent, 'g' sous le seuil ghost
+export const velocityMark = (profile: MidiMappingProfile, velocity: number): string | undefined => {
+  if (profile.accentVelocity !== null && velocity >= profile.accentVelocity) return '>';
+  if (profile.ghostVelocity !== null && velocity <= profile.ghostVelocity) return 'g';
+  return undefined;
+};
+
+/**
+ * Interprète un message MIDI selon le profil : note-on -> corde (correspondance explicite,
+ * sinon hauteur de l'accordage après décalage d'octave), CC qui passe de < 64 à >= 64 -> action
+ * (un bouton rotatif ou un fader ne déclenche qu'une fois par montée). `controlValues` garde la
+ * dernière valeur de chaque CC (clé "canal:cc") et est mis à jour à chaque CC reçu.
+ * null pour les autres messages et les canaux filtrés.
+ */
+export const resolveMidiMessage = (profile: MidiMappingProfile, data: ArrayLike<number>, tuning: Tuning, controlValues: Record<string, number>): MidiInputEvent | null => {
+  const [status, data1, data2] = [data[0], data[1], data[2]];
+  if (profile.channel !== null && messageChannel(status) !== profile.channel) return null;
+
+  const command = status & 0xF0;
+  if (command === 0x90 && data2 > 0) {
+    const stringId = profile.notes[data1] ?? (profile.matchTuning ? midiToStringId(data1 + 12 * profile.octaveShift, tuning) : undefined);
+    if (!stringId) return { type: 'unmapped', note: data1 };
+    return { type: 'note', stringId, dynamicMark: velocityMark(profile, data2) };
+  }
+  if (command === 0xB0) {
+    const key = `${messageChannel(status)}:${data1}`;
+    const previous = controlValues[key] ?? 0;
+    controlValues[key] = data2;
+    if (previous < 64 && data2 >= 64 && profile.controls[data1]) return { type: 'action', action: profile.controls[data1] };
+  }
+  return null;
+};
+
+// Apprentissage : la note reçue joue désormais `stringId` (une note par corde, une corde par note)
+export const learnNote = (profile: MidiMappingProfile, note: number, stringId: string): MidiMappingProfile => {
+  const notes = Object.fromEntries(Object.entries(profile.notes).filter(([n, id]) => id !== stringId && Number(n) !== note));
+  return { ...profile, notes: { ...notes, [note]: stringId } };
+};
+
+// Apprentissage : le CC reçu déclenche désormais `action` (un CC par action)
+export const learnControl = (profile: MidiMappingProfile, cc: number, action: MidiAction): MidiMappingProfile => {
+  const controls = Object.fromEntries(Object.entries(profile.controls).filter(([n, a]) => a !== action && Number(n) !== cc));
+  return { ...profile, controls: { ...controls, [cc]: action } };
+};
+
+export const forgetString = (profile: MidiMappingProfile, stringId: string): MidiMappingProfile =>
+  ({ ...profile, notes: Object.fromEntries(Object.entries(profile.notes).filter(([, id]) => id !== stringId)) });
+
+export const forgetAction = (profile: MidiMappingProfile, action: MidiAction): MidiMappingProfile =>
+  ({ ...profile, controls: Object.fromEntries(Object.entries(profile.controls).filter(([, a]) => a !== action)) });
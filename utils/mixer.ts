@@ -0,0 +1,28 @@
+import { Hand, MixerChannel, MixerState } from '../types';
+import { STRING_CONFIGS } from '../constants';
+
+const flatChannel = (pan: number = 0): MixerChannel => ({ gain: 1, pan, mute: false, solo: false });
+
+// Placement stéréo de l'instrument vu par le joueur : main gauche à gauche, main droite
+// à droite, les cordes s'écartant du centre de la 1 à la 6
+const defaultPan = (hand: Hand, index: number) => (hand === 'G' ? -1 : 1) * (0.15 + 0.1 * (index - 1));
+
+export const createDefaultMixer = (): MixerState => ({
+  strings: Object.fromEntries(STRING_CONFIGS.map(s => [s.stringId, flatChannel(defaultPan(s.hand, s.index))])),
+  hands: { G: flatChannel(), D: flatChannel() }
+});
+
+/**
+ * Gain et panoramique effectifs d'une corde : corde × main. Dès qu'une corde ou une main
+ * est en solo, seules les cordes en solo (directement ou par leur main) restent audibles.
+ */
+export const channelMix = (mixer: MixerState, stringId: string): { gain: number; pan: number } => {
+  const conf = STRING_CONFIGS.find(s => s.stringId === stringId);
+  const channel = mixer.strings[stringId] || flatChannel();
+  const hand = conf ? mixer.hands[conf.hand] : flatChannel();
+  const pan = Math.max(-1, Math.min(1, channel.pan + hand.pan));
+
+  const anySolo = Object.values(mixer.strings).some(c => c.solo) || Object.values(mixer.hands).some(c => c.solo);
+  const muted = channel.mute || hand.mute || (anySolo && !channel.solo && !hand.solo);
+  return { gain: muted ? 0 : channel.gain * hand.gain, pan };
+};
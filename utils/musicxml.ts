@@ -0,0 +1,209 @@
+
+import { parseTablature } from "./parser";
+import { buildMeasureMap, meterFromRhythmMode } from "./meter";
+import { STRING_CONFIGS } from "../constants";
+import { Meter, ParsedNote, Tuning, TICKS_QUARTER } from "../types";
+
+// Une noire = TICKS_QUARTER divisions : les ticks de la tablature sont repris tels quels
+const DIVISIONS = TICKS_QUARTER;
+
+// Valeurs de notes exprimées en ticks (du plus long au plus court) pour découper les durées
+const NOTE_VALUES: { ticks: number; type: string; dots?: number; triplet?: boolean }[] = [
+    { ticks: 48, type: 'whole' },
+    { ticks: 36, type: 'half', dots: 1 },
+    { ticks: 24, type: 'half' },
+    { ticks: 18, type: 'quarter', dots: 1 },
+    { ticks: 12, type: 'quarter' },
+    { ticks: 9, type: 'eighth', dots: 1 },
+    { ticks: 6, type: 'eighth' },
+    { ticks: 4, type: 'eighth', triplet: true },
+    { ticks: 3, type: '16th' },
+    { ticks: 2, type: '16th', triplet: true },
+    { ticks: 1, type: '32nd', triplet: true }
+];
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// "G#4" -> { step: 'G', alter: 1, octave: 4 }
+const parsePitch = (note: string) => {
+    const match = note.match(/^([A-G])([#b]?)(-?\d)$/);
+    if (!match) return null;
+    return { step: match[1], alter: match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0, octave: parseInt(match[3], 10) };
+};
+
+// Découpe une durée en valeurs de notes écrivables (liées entre elles)
+const splitDuration = (ticks: number) => {
+    const pieces: typeof NOTE_VALUES = [];
+    let remaining = ticks;
+    while (remaining > 0) {
+        const value = NOTE_VALUES.find(v => v.ticks <= remaining) || NOTE_VALUES[NOTE_VALUES.length - 1];
+        pieces.push(value);
+        remaining -= value.ticks;
+    }
+    return pieces;
+};
+
+/**
+ * Convertit une tablature en partition MusicXML (partwise, une portée en clé de sol).
+ * Les notes simultanées (=) forment des accords, TXT devient une indication <words>
+ * et le doigté P/I un <fingering>. Les mesures suivent la carte des mesures (commandes MESURE) :
+ * la mesure 1 commence après le décompte, qui devient une levée s'il contient des notes.
+ */
+export const generateMusicXML = (code: string, tuning: Tuning, title: string = "Tablature Ngonilélé", rhythmMode: 'binary' | 'ternary' = 'binary'): string => {
+    const { notes } = parseTablature(code);
+    const measureMap = buildMeasureMap(notes, meterFromRhythmMode(rhythmMode));
+
+    const pitchOf = (note: ParsedNote) => {
+        const conf = STRING_CONFIGS.find(s => s.stringId === note.stringId);
+        return conf ? parsePitch(tuning[conf.stringId] || conf.note) : null;
+    };
+
+    // --- REGROUPEMENT ---
+    const chords = new Map<number, ParsedNote[]>();
+    const words = new Map<number, string[]>();
+    notes.forEach(n => {
+        const tick = Math.round(n.tick);
+        if (n.stringId === 'TEXTE' && n.message) {
+            words.set(tick, [...(words.get(tick) || []), n.message]);
+        } else if (pitchOf(n)) {
+            chords.set(tick, [...(chords.get(tick) || []), n]);
+        }
+    });
+
+    const chordTicks = Array.from(chords.keys()).sort((a, b) => a - b);
+    const lastTick = Math.max(0, ...chordTicks, ...Array.from(words.keys()));
+    const origin = measureMap[0].startTick;
+
+    // --- MESURES ---
+    // Levée pour le décompte s'il porte des notes ou du texte, puis les mesures de chaque segment
+    // (la dernière mesure d'un segment est écourtée par le changement de chiffrage)
+    const bars: { start: number; end: number; number: number; implicit: boolean; meter?: Meter }[] = [];
+    if (chordTicks.some(t => t < origin) || Array.from(words.keys()).some(t => t < origin)) {
+        bars.push({ start: 0, end: origin, number: 0, implicit: true, meter: measureMap[0] });
+    }
+    const scoreEnd = Math.max(origin + 1, lastTick + TICKS_QUARTER);
+    measureMap.forEach(segment => {
+        for (let start = segment.startTick, i = 0; start < segment.endTick && start < scoreEnd; start += segment.measureTicks, i++) {
+            bars.push({
+                start,
+                end: Math.min(start + segment.measureTicks, segment.endTick),
+                number: segment.firstMeasure + i,
+                implicit: false,
+                meter: i === 0 && !(segment === measureMap[0] && bars.length > 0) ? segment : undefined
+            });
+        }
+    });
+
+    // Chaque accord sonne jusqu'au suivant, le dernier une noire
+    const soundingUntil = (tick: number) => {
+        const next = chordTicks.find(t => t > tick);
+        return next !== undefined ? next : tick + TICKS_QUARTER;
+    };
+
+    // --- ÉCRITURE ---
+    const noteXml = (note: ParsedNote | null, value: typeof NOTE_VALUES[number], isChord: boolean, tieStop: boolean, tieStart: boolean) => {
+        const lines: string[] = ['      <note>'];
+        if (isChord) lines.push('        <chord/>');
+        if (note) {
+            const pitch = pitchOf(note)!;
+            lines.push('        <pitch>', `          <step>${pitch.step}</step>`);
+            if (pitch.alter) lines.push(`          <alter>${pitch.alter}</alter>`);
+            lines.push(`          <octave>${pitch.octave}</octave>`, '        </pitch>');
+        } else {
+            lines.push('        <rest/>');
+        }
+        lines.push(`        <duration>${value.ticks}</duration>`);
+        if (tieStop) lines.push('        <tie type="stop"/>');
+        if (tieStart) lines.push('        <tie type="start"/>');
+        lines.push('        <voice>1</voice>', `        <type>${value.type}</type>`);
+        for (let i = 0; i < (value.dots || 0); i++) lines.push('        <dot/>');
+        if (value.triplet) {
+            lines.push('        <time-modification>', '          <actual-notes>3</actual-notes>', '          <normal-notes>2</normal-notes>', '        </time-modification>');
+        }
+
+        const notations: string[] = [];
+        if (tieStop) notations.push('          <tied type="stop"/>');
+        if (tieStart) notations.push('          <tied type="start"/>');
+        if (note?.doigt && !tieStop) {
+            notations.push('          <technical>', `            <fingering>${note.doigt}</fingering>`, '          </technical>');
+        }
+        if (notations.length > 0) lines.push('        <notations>', ...notations, '        </notations>');
+        lines.push('      </note>');
+        return lines.join('\n');
+    };
+
+    const measures: string[] = [];
+    bars.forEach((bar, barIndex) => {
+        const { start: measureStart, end: measureEnd } = bar;
+        const body: string[] = [];
+
+        // Attributs complets dans la première mesure, puis <time> à chaque changement de chiffrage
+        if (barIndex === 0 || bar.meter) {
+            const attributes = ['      <attributes>'];
+            if (barIndex === 0) attributes.push(`        <divisions>${DIVISIONS}</divisions>`, '        <key><fifths>0</fifths></key>');
+            if (bar.meter) attributes.push(`        <time><beats>${bar.meter.numerator}</beats><beat-type>${bar.meter.denominator}</beat-type></time>`);
+            if (barIndex === 0) attributes.push('        <clef><sign>G</sign><line>2</line></clef>');
+            attributes.push('      </attributes>');
+            body.push(attributes.join('\n'));
+        }
+
+        // Points de découpe de la mesure : accords, textes et fins de son
+        const cuts = new Set<number>([measureStart, measureEnd]);
+        [...chordTicks, ...Array.from(words.keys()), ...chordTicks.map(soundingUntil)]
+            .filter(t => t > measureStart && t < measureEnd)
+            .forEach(t => cuts.add(t));
+        const points = Array.from(cuts).sort((a, b) => a - b);
+
+        points.slice(0, -1).forEach((from, i) => {
+            const to = points[i + 1];
+
+            (words.get(from) || []).forEach(text => {
+                body.push([
+                    '      <direction placement="above">',
+                    '        <direction-type>',
+                    `          <words>${escapeXml(text)}</words>`,
+                    '        </direction-type>',
+                    '      </direction>'
+                ].join('\n'));
+            });
+
+            // Accord qui sonne sur [from, to) : attaqué ici ou prolongé par une liaison
+            const owner = [...chordTicks].reverse().find(t => t <= from);
+            const sounding = owner !== undefined && soundingUntil(owner) > from ? chords.get(owner)! : null;
+            const attacked = owner === from;
+
+            splitDuration(to - from).forEach((value, pieceIndex, pieces) => {
+                if (!sounding) {
+                    body.push(noteXml(null, value, false, false, false));
+                    return;
+                }
+                const tieStop = !attacked || pieceIndex > 0;
+                const tieStart = pieceIndex < pieces.length - 1 || soundingUntil(owner!) > to;
+                sounding.forEach((note, noteIndex) => {
+                    body.push(noteXml(note, value, noteIndex > 0, tieStop, tieStart));
+                });
+            });
+        });
+
+        measures.push(`    <measure number="${bar.number}"${bar.implicit ? ' implicit="yes"' : ''}>\n${body.join('\n')}\n    </measure>`);
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+        '<score-partwise version="4.0">',
+        `  <work><work-title>${escapeXml(title)}</work-title></work>`,
+        '  <identification>',
+        '    <encoding><software>Ngonilélé Tab Generator</software></encoding>',
+        '  </identification>',
+        '  <part-list>',
+        '    <score-part id="P1"><part-name>Ngonilélé</part-name></score-part>',
+        '  </part-list>',
+        '  <part id="P1">',
+        ...measures,
+        '  </part>',
+        '</score-partwise>',
+        ''
+    ].join('\n');
+};
@@ -1,5 +1,8 @@
 
-import { ParsedNote, TICKS_QUARTER, TICKS_EIGHTH, TICKS_TRIPLET, TICKS_SIXTEENTH } from '../types';
+import { ParsedNote, ParseDiagnostic, ParseResult, DiagnosticSeverity, TICKS_QUARTER, TICKS_EIGHTH, TICKS_TRIPLET, TICKS_SIXTEENTH, DEFAULT_VELOCITY } from '../types';
+import { STRING_CONFIGS, GROOVE_TEMPLATES, DEFAULT_GROOVE } from '../constants';
+import { isValidMeter } from './meter';
+import { isValidGroove, MIN_SWING, MAX_SWING } from './groove';
 
 const SYMBOLS_DURATION: Record<string, number> = {
   '+': TICKS_QUARTER, // 12
@@ -10,26 +13,144 @@ const SYMBOLS_DURATION: Record<string, number> = {
   'h': 24  // Blanche (non affiché mais supporté)
 };
 
-export const parseTablature = (text: string): ParsedNote[] => {
+const VALID_STRING_IDS = STRING_CONFIGS.map(s => s.stringId);
+const SILENCE_CODES = ['S', 'SILENCE', 'SEP'];
+
+// Reprises : lignes sans durée, placées au tick de la ligne suivante.
+//   REPEAT_START          début de la reprise
+//   ENDING 1              1ère fois (ENDING 1,2 = passages 1 et 2)
+//   REPEAT_END 2          fin de la reprise, nombre total de passages
+// Une note suivie de xN (ex : "+ 6D x2") est rejouée N fois.
+const REPEAT_COMMANDS = ['REPEAT_START', 'REPEAT_END', 'ENDING'];
+
+// Étouffement : "♪ STOP 3G 4D" arrête ces cordes, "+ STOP" arrête toutes les cordes.
+// Sans STOP, une corde résonne librement (duration = 0).
+const STOP_COMMAND = 'STOP';
+
+// Nuances : "+ DYN p" change le niveau des notes suivantes (vélocité MIDI 1-127).
+// Sur une note, ">" accentue, "g" joue en note fantôme et "v100" impose la vélocité.
+const DYNAMIC_LEVELS: Record<string, number> = { pp: 33, p: 49, mp: 64, mf: DEFAULT_VELOCITY, f: 96, ff: 112 };
+const ACCENT_FACTOR = 1.3;
+const GHOST_FACTOR = 0.5;
+
+// Tempo : "+ TEMPO 140" à partir de cette ligne, "+ ACCEL 140 8" / "+ RIT 80 8"
+// pour y arriver progressivement sur 8 temps.
+const MIN_BPM = 20;
+const MAX_BPM = 400;
+
+// Chiffrage : "+ MESURE 12/8" à partir de cette ligne (nouvelle mesure).
+// Groove : "+ GROOVE swing 62", "+ GROOVE mandingue", "+ GROOVE droit" à partir du temps suivant
+
+interface Token {
+  text: string;
+  column: number;
+}
+
+const tokenize = (line: string): Token[] =>
+  Array.from(line.matchAll(/\S+/g)).map(m => ({ text: m[0], column: m.index ?? 0 }));
+
+const replaceToken = (line: string, token: Token, replacement: string) =>
+  line.slice(0, token.column) + replacement + line.slice(token.column + token.text.length);
+
+const removeToken = (line: string, token: Token) =>
+  (line.slice(0, token.column) + line.slice(token.column + token.text.length)).trimEnd();
+
+// Propose une corde valide pour les fautes de frappe courantes (7G -> 6G, G3 -> 3G)
+const suggestStringId = (code: string): string | undefined => {
+  const inverted = code.match(/^([GD])(\d)$/);
+  if (inverted) code = `${inverted[2]}${inverted[1]}`;
+
+  const match = code.match(/^(\d+)([GD])$/);
+  if (!match) return undefined;
+  const index = Math.min(6, Math.max(1, parseInt(match[1], 10)));
+  const candidate = `${index}${match[2]}`;
+  return VALID_STRING_IDS.includes(candidate) ? candidate : undefined;
+};
+
+export const parseTablature = (text: string): ParseResult => {
   const data: ParsedNote[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
   let currentTick = 0;
-  
-  if (!text) return [];
+  let currentDynamic = DEFAULT_VELOCITY;
+
+  // Repeat markers wait for the next timed line to know their tick
+  const pendingMarkers: ParsedNote[] = [];
+  let openRepeat: { marker: ParsedNote; token: Token } | null = null;
+  // Tick of every timed line, silences included (used for xN spans)
+  const lineTicks: number[] = [];
+
+  if (!text) return { notes: [], diagnostics: [] };
 
   const lines = text.trim().split('\n');
 
   lines.forEach((line, index) => {
-    const parts = line.trim().split(/\s+/);
-    if (parts.length < 2) return;
+    const tokens = tokenize(line);
+    const parts = tokens.map(t => t.text);
+
+    const report = (token: Token, severity: DiagnosticSeverity, message: string, suggestion?: string) => {
+      diagnostics.push({ lineIndex: index, column: token.column, length: token.text.length, severity, message, suggestion });
+    };
+
+    // --- REPRISES ---
+    const command = parts.length > 0 ? parts[0].toUpperCase() : '';
+    if (REPEAT_COMMANDS.includes(command)) {
+      const marker: ParsedNote = { id: `rep-${index}`, tick: 0, duration: 0, stringId: command, lineIndex: index };
+
+      if (command === 'REPEAT_START') {
+        if (openRepeat) {
+          report(tokens[0], 'error', "Reprise déjà ouverte : les reprises imbriquées ne sont pas supportées.");
+          return;
+        }
+        openRepeat = { marker, token: tokens[0] };
+      } else if (command === 'REPEAT_END') {
+        if (!openRepeat) {
+          report(tokens[0], 'error', "REPEAT_END sans REPEAT_START correspondant : ignoré.");
+          return;
+        }
+        let passes = 2;
+        if (parts.length > 1) {
+          const match = parts[1].match(/^[xX]?(\d+)[xX]?$/);
+          if (match && parseInt(match[1], 10) >= 2) {
+            passes = parseInt(match[1], 10);
+          } else {
+            report(tokens[1], 'error', `Nombre de passages invalide « ${parts[1]} » : 2 par défaut.`, replaceToken(line, tokens[1], '2'));
+          }
+        }
+        marker.repeat = passes;
+        openRepeat = null;
+      } else {
+        const passes = (parts[1] || '').split(',').map(p => parseInt(p, 10));
+        if (parts.length < 2 || passes.some(p => isNaN(p) || p < 1)) {
+          report(tokens[0], 'error', "ENDING attend un numéro de passage (ex : ENDING 1).");
+          return;
+        }
+        marker.ending = passes;
+      }
+
+      pendingMarkers.push(marker);
+      return;
+    }
+
+    if (parts.length < 2) {
+      if (parts.length === 1) {
+        const lone = parts[0].toUpperCase();
+        if (VALID_STRING_IDS.includes(lone)) {
+          report(tokens[0], 'warning', `Durée manquante avant ${lone} : ligne ignorée.`, `+   ${lone}`);
+        } else {
+          report(tokens[0], 'warning', `Ligne incomplète « ${parts[0]} » : ignorée.`);
+        }
+      }
+      return;
+    }
 
     const col1 = parts[0]; // Duration / Delta symbol
-    
+
     let thisDelta = 0;
 
     // --- DETECTION DU DELTA ---
     if (col1 === '=') {
       if (data.length > 0) {
-          currentTick = data[data.length - 1].tick; 
+          currentTick = data[data.length - 1].tick;
       }
       thisDelta = 0;
     } else if (/^\d+(\.\d+)?$/.test(col1)) {
@@ -39,18 +160,33 @@ export const parseTablature = (text: string): ParsedNote[] => {
     } else if (col1.endsWith('.') && SYMBOLS_DURATION[col1.slice(0, -1)]) {
        thisDelta = Math.floor(SYMBOLS_DURATION[col1.slice(0, -1)] * 1.5);
     } else {
-       thisDelta = 12; 
+       thisDelta = 12;
+       // Une corde en 1ère colonne signifie généralement que la durée a été oubliée
+       const suggestion = VALID_STRING_IDS.includes(col1.toUpperCase())
+           ? `+   ${line.trim()}`
+           : replaceToken(line, tokens[0], '+');
+       report(tokens[0], 'error', `Durée inconnue « ${col1} » : interprétée comme une noire (+).`, suggestion);
     }
 
     const noteTick = currentTick + thisDelta;
     currentTick = noteTick;
+    lineTicks.push(noteTick);
+
+    pendingMarkers.forEach(marker => {
+      marker.tick = noteTick;
+      data.push(marker);
+    });
+    pendingMarkers.length = 0;
 
     // --- 2. Content Analysis ---
     let stringCode = parts[1].toUpperCase();
-    
+
     // Special Command: TXT
     if (stringCode === 'TXT') {
       const message = parts.slice(2).join(' ');
+      if (!message) {
+        report(tokens[1], 'warning', "Commande TXT sans texte.");
+      }
       data.push({
         id: `txt-${index}`,
         tick: noteTick,
@@ -62,6 +198,101 @@ export const parseTablature = (text: string): ParsedNote[] => {
       return;
     }
 
+    // Special Command: MESURE (chiffrage)
+    if (stringCode === 'MESURE') {
+      const match = (parts[2] || '').match(/^(\d+)\/(\d+)$/);
+      const meter = match ? { numerator: parseInt(match[1], 10), denominator: parseInt(match[2], 10) } : null;
+      if (!meter || !isValidMeter(meter)) {
+        report(tokens[2] || tokens[1], 'error', `Chiffrage invalide « ${parts[2] || ''} » (ex : MESURE 4/4, MESURE 12/8).`,
+          tokens[2] ? replaceToken(line, tokens[2], '4/4') : `${line.trimEnd()}   4/4`);
+        return;
+      }
+      data.push({
+        id: `mesure-${index}`,
+        tick: noteTick,
+        duration: 0,
+        stringId: 'MESURE',
+        meter,
+        lineIndex: index
+      });
+      return;
+    }
+
+    // Special Command: GROOVE (swing / feel)
+    if (stringCode === 'GROOVE') {
+      const template = (parts[2] || '').toLowerCase();
+      const swing = parts[3] !== undefined ? parseFloat(parts[3]) : DEFAULT_GROOVE.swing;
+      if (!GROOVE_TEMPLATES.some(t => t.id === template)) {
+        report(tokens[2] || tokens[1], 'error', `Groove inconnu « ${parts[2] || ''} » (${GROOVE_TEMPLATES.map(t => t.id).join(', ')}).`,
+          tokens[2] ? replaceToken(line, tokens[2], 'droit') : `${line.trimEnd()}   droit`);
+        return;
+      }
+      const groove = { template, swing };
+      if (!isValidGroove(groove)) {
+        report(tokens[3], 'error', `Swing « ${parts[3]} » hors limites (${MIN_SWING} à ${MAX_SWING} %).`,
+          replaceToken(line, tokens[3], String(DEFAULT_GROOVE.swing)));
+        return;
+      }
+      data.push({
+        id: `groove-${index}`,
+        tick: noteTick,
+        duration: 0,
+        stringId: 'GROOVE',
+        groove,
+        lineIndex: index
+      });
+      return;
+    }
+
+    // Special Command: DYN (nuance)
+    if (stringCode === 'DYN') {
+      const level = (parts[2] || '').toLowerCase();
+      if (DYNAMIC_LEVELS[level] === undefined) {
+        const target = tokens[2] || tokens[1];
+        report(target, 'error', `Nuance inconnue « ${parts[2] || ''} » (pp, p, mp, mf, f ou ff attendus).`,
+          tokens[2] ? replaceToken(line, tokens[2], 'mf') : `${line.trimEnd()}   mf`);
+        return;
+      }
+      currentDynamic = DYNAMIC_LEVELS[level];
+      data.push({
+        id: `dyn-${index}`,
+        tick: noteTick,
+        duration: 0,
+        stringId: 'DYN',
+        message: level,
+        lineIndex: index
+      });
+      return;
+    }
+
+    // Special Command: TEMPO / ACCEL / RIT
+    if (stringCode === 'TEMPO' || stringCode === 'ACCEL' || stringCode === 'RIT') {
+      const tempo = parseFloat(parts[2] || '');
+      if (isNaN(tempo) || tempo < MIN_BPM || tempo > MAX_BPM) {
+        report(tokens[2] || tokens[1], 'error', `${stringCode} attend un tempo entre ${MIN_BPM} et ${MAX_BPM} BPM (ex : ${stringCode} 120${stringCode === 'TEMPO' ? '' : ' 4'}).`);
+        return;
+      }
+      let tempoBeats: number | undefined = undefined;
+      if (stringCode !== 'TEMPO') {
+        tempoBeats = parseFloat(parts[3] || '');
+        if (isNaN(tempoBeats) || tempoBeats <= 0) {
+          report(tokens[3] || tokens[2], 'error', `${stringCode} attend une durée en temps : 4 par défaut.`,
+            tokens[3] ? replaceToken(line, tokens[3], '4') : `${line.trimEnd()}   4`);
+          tempoBeats = 4;
+        }
+      }
+      data.push({
+        id: `tempo-${index}`,
+        tick: noteTick,
+        duration: 0,
+        stringId: stringCode,
+        tempo,
+        tempoBeats,
+        lineIndex: index
+      });
+      return;
+    }
+
     // Special Command: PAGE
     if (stringCode === 'PAGE') {
       data.push({
@@ -75,31 +306,127 @@ export const parseTablature = (text: string): ParsedNote[] => {
       return;
     }
 
+    // Special Command: STOP (étouffement)
+    if (stringCode === STOP_COMMAND) {
+      const stopStrings: string[] = [];
+      tokens.slice(2).forEach(token => {
+        token.text.split(',').filter(Boolean).forEach(code => {
+          const id = code.toUpperCase();
+          if (VALID_STRING_IDS.includes(id)) {
+            stopStrings.push(id);
+          } else {
+            const fixed = suggestStringId(id);
+            report(token, 'error', `Corde inconnue « ${code} » dans STOP${fixed ? ` : vouliez-vous dire ${fixed} ?` : '.'}`, fixed ? replaceToken(line, token, token.text.replace(code, fixed)) : undefined);
+          }
+        });
+      });
+      data.push({
+        id: `stop-${index}`,
+        tick: noteTick,
+        duration: 0,
+        stringId: 'STOP',
+        stopStrings,
+        lineIndex: index
+      });
+      return;
+    }
+
     // Silence (S)
-    if (stringCode === 'S' || stringCode === 'SILENCE' || stringCode === 'SEP') {
+    if (SILENCE_CODES.includes(stringCode)) {
        return;
     }
 
+    if (!VALID_STRING_IDS.includes(stringCode)) {
+      const fixed = suggestStringId(stringCode);
+      const message = fixed
+          ? `Corde inconnue « ${parts[1]} » : vouliez-vous dire ${fixed} ?`
+          : `Corde inconnue « ${parts[1]} » : la note ne sera ni affichée ni jouée.`;
+      report(tokens[1], 'error', message, fixed ? replaceToken(line, tokens[1], fixed) : undefined);
+    }
+
     // Note Normale
-    // MODIF: On n'impose plus de doigté par défaut. 
+    // MODIF: On n'impose plus de doigté par défaut.
     // Si la 3ème colonne est absente, doigt est undefined.
     let doigt: string | undefined = undefined;
-    if (parts.length > 2) {
-      const p3 = parts[2].toUpperCase();
-      if (p3 === 'I' || p3 === 'P') {
-        doigt = p3;
+    let repeat: number | undefined = undefined;
+    let dynamicMark: string | undefined = undefined;
+    let velocity = currentDynamic;
+    tokens.slice(2).forEach(token => {
+      const p = token.text.toUpperCase();
+      const repeatMatch = p.match(/^X(\d+)$/);
+      const velocityMatch = p.match(/^V(\d+)$/);
+      if (p === 'I' || p === 'P') {
+        doigt = p;
+      } else if (p === '>') {
+        dynamicMark = '>';
+        velocity = Math.min(127, Math.round(currentDynamic * ACCENT_FACTOR));
+      } else if (p === 'G') {
+        dynamicMark = 'g';
+        velocity = Math.max(1, Math.round(currentDynamic * GHOST_FACTOR));
+      } else if (velocityMatch) {
+        const value = parseInt(velocityMatch[1], 10);
+        if (value >= 1 && value <= 127) {
+          dynamicMark = `v${value}`;
+          velocity = value;
+        } else {
+          report(token, 'error', `Vélocité « ${token.text} » hors limites (v1 à v127).`, replaceToken(line, token, `v${Math.min(127, Math.max(1, value))}`));
+        }
+      } else if (repeatMatch && parseInt(repeatMatch[1], 10) >= 1) {
+        const count = parseInt(repeatMatch[1], 10);
+        if (count > 1) repeat = count;
+      } else {
+        report(token, 'warning', `Colonne inconnue « ${token.text} » ignorée (doigté P/I, répétition xN ou nuance >, g, vNN attendus).`, removeToken(line, token));
       }
-    }
-    
+    });
+
     data.push({
       id: `note-${index}`,
       tick: noteTick,
       duration: 0,
       stringId: stringCode,
       doigt: doigt,
+      repeat: repeat,
+      velocity,
+      dynamicMark,
       lineIndex: index
     });
   });
 
-  return data.sort((a, b) => a.tick - b.tick);
+  // Markers at the very end of the code close the last note on a quarter
+  pendingMarkers.forEach(marker => {
+    marker.tick = currentTick + TICKS_QUARTER;
+    data.push(marker);
+  });
+
+  if (openRepeat) {
+    const { marker, token } = openRepeat as { marker: ParsedNote; token: Token };
+    diagnostics.push({
+      lineIndex: marker.lineIndex, column: token.column, length: token.text.length, severity: 'warning',
+      message: "REPEAT_START sans REPEAT_END : la reprise n'est pas jouée."
+    });
+  }
+
+  // Each extra pass of an xN note replays the time up to the next line
+  data.forEach(note => {
+    if (!note.repeat || !VALID_STRING_IDS.includes(note.stringId)) return;
+    const next = lineTicks.find(t => t > note.tick);
+    note.repeatSpan = next !== undefined ? next - note.tick : TICKS_QUARTER;
+  });
+
+  // STOP gives its duration to the last note still ringing on each damped string
+  data.filter(n => n.stringId === 'STOP').sort((a, b) => a.tick - b.tick).forEach(stop => {
+    const targets = stop.stopStrings && stop.stopStrings.length > 0 ? stop.stopStrings : VALID_STRING_IDS;
+    targets.forEach(stringId => {
+      let last: ParsedNote | undefined = undefined;
+      data.forEach(n => {
+        if (n.stringId === stringId && n.tick < stop.tick && (!last || n.tick >= last.tick)) last = n;
+      });
+      const ringing = last as ParsedNote | undefined;
+      if (ringing && ringing.duration === 0) ringing.duration = stop.tick - ringing.tick;
+    });
+  });
+
+  diagnostics.sort((a, b) => a.lineIndex - b.lineIndex);
+
+  return { notes: data.sort((a, b) => a.tick - b.tick), diagnostics };
 };
@@ -1,8 +1,9 @@
 
 import { jsPDF } from "jspdf";
 import { parseTablature } from "./parser";
-import { STRING_CONFIGS, NOTE_COLORS } from "../constants";
-import { ParsedNote, TICKS_QUARTER, NoteConfig } from "../types";
+import { buildMeasureMap, beatsInRange, meterFromRhythmMode } from "./meter";
+import { STRING_CONFIGS, NOTE_COLORS, GROOVE_TEMPLATES } from "../constants";
+import { ParsedNote, TICKS_QUARTER, TICKS_COUNT_IN, NoteConfig, Tuning, PdfOptions, DEFAULT_VELOCITY } from "../types";
 
 // Configuration de la mise en page PDF
 const PAGE_WIDTH = 210; // A4 width mm
@@ -16,10 +17,14 @@ const VISUAL_WIDTH_MM = 160;
 const STRING_SPACING = VISUAL_WIDTH_MM / 14; 
 const TICK_SCALE = 1.5; // Hauteur par tick (mm)
 const NOTE_RADIUS = 2.5; // Rayon des billes (mm)
+const HEADER_BOTTOM_FIRST = 50; // Fin de l'en-tête page 1 (titre + accordage + cordes)
+const HEADER_BOTTOM = MARGIN_TOP + 5; // Fin de l'en-tête des pages suivantes
+const TOC_LINE_HEIGHT = 4.5;
+const TOC_TOP_FIRST = 45; // Haut du sommaire en page 1 (sous le tableau d'accordage)
 
-export const generatePDF = (code: string, title: string = "Tablature Ngonilélé", scaleName: string = "") => {
+export const generatePDF = (code: string, tuning: Tuning, title: string = "Tablature Ngonilélé", scaleName: string = "", options: PdfOptions = {}) => {
     const doc = new jsPDF();
-    const notes = parseTablature(code);
+    const { notes } = parseTablature(code);
     
     // --- UTILS ---
     const hexToRgb = (hex: string) => {
@@ -31,10 +36,44 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
         } : { r: 0, g: 0, b: 0 };
     };
 
+    // Note réelle de la corde dans la gamme choisie (comme le Visualizer)
+    const noteOf = (s: NoteConfig) => tuning[s.stringId] || s.note;
+    const colorOf = (s: NoteConfig, fallback: string) => hexToRgb(NOTE_COLORS[noteOf(s).charAt(0)] || fallback);
+
+    // Tableau d'accordage : une pastille par corde avec sa note, à sa position
+    const drawTuningChart = (y: number) => {
+        const left = CENTER_X - (7 * STRING_SPACING);
+        const right = CENTER_X + (7 * STRING_SPACING);
+        doc.setDrawColor(141, 110, 99);
+        doc.setLineWidth(0.2);
+        doc.setFillColor(250, 243, 235);
+        doc.roundedRect(left, y, right - left, 12, 2, 2, 'FD');
+
+        doc.setFontSize(6);
+        doc.setTextColor(93, 64, 55);
+        doc.setFont("helvetica", "bold");
+        doc.text("Main G", left + 2, y + 3);
+        doc.text("Main D", right - 2, y + 3, { align: "right" });
+
+        STRING_CONFIGS.forEach((s: NoteConfig) => {
+            const direction = s.hand === 'G' ? -1 : 1;
+            const x = CENTER_X + (direction * s.index * STRING_SPACING);
+            const color = colorOf(s, '#999999');
+
+            doc.setFillColor(color.r, color.g, color.b);
+            doc.circle(x, y + 5, 2.2, 'F');
+            doc.setTextColor(93, 64, 55);
+            doc.setFontSize(7);
+            doc.setFont("helvetica", "bold");
+            doc.text(noteOf(s), x, y + 10.5, { align: "center" });
+        });
+        doc.setFont("helvetica", "normal");
+    };
+
     let cursorY = MARGIN_TOP;
 
-    // Fonction pour dessiner l'en-tête de page
-    const drawPageHeader = (pageIndex: number) => {
+    // Fonction pour dessiner l'en-tête de page (sans les cordes sur une page de sommaire)
+    const drawPageHeader = (pageIndex: number, withStrings: boolean = true) => {
         if (pageIndex === 1) {
             doc.setFont("helvetica", "bold");
             doc.setTextColor(93, 64, 55); // #5d4037
@@ -44,10 +83,12 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
             doc.setFontSize(10);
             doc.setFont("helvetica", "normal");
             doc.text(`Gamme : ${scaleName}`, CENTER_X, 22, { align: "center" });
-            cursorY = 35; 
+            drawTuningChart(25);
+            cursorY = 45;
         } else {
             cursorY = MARGIN_TOP;
         }
+        if (!withStrings) return;
 
         // Dessiner les en-têtes de cordes (Cercles colorés)
         const headerY = cursorY;
@@ -56,7 +97,7 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
         STRING_CONFIGS.forEach((s: NoteConfig) => {
             const direction = s.hand === 'G' ? -1 : 1;
             const x = CENTER_X + (direction * s.index * STRING_SPACING);
-            const color = hexToRgb(NOTE_COLORS[s.note.charAt(0)] || '#999999');
+            const color = colorOf(s, '#999999');
 
             // Petit cercle indicateur
             doc.setFillColor(color.r, color.g, color.b);
@@ -78,9 +119,85 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
     const lastNote = notes.length > 0 ? notes[notes.length - 1] : null;
     const lastTick = lastNote ? lastNote.tick + lastNote.duration : 0;
     const totalTicks = lastTick + (TICKS_QUARTER * 2); // Un peu de marge à la fin
+    const measureMap = buildMeasureMap(notes, meterFromRhythmMode(options.rhythmMode || 'binary'));
+    const PAGE_BOTTOM = PAGE_HEIGHT - MARGIN_BOTTOM;
+
+    // 2. Sommaire : une entrée par TXT (les sections des presets). S'il ne laisse pas au moins
+    //    un temps de musique sous lui en page 1, il a ses propres pages et la musique suit
+    const sections = options.includeTableOfContents
+        ? notes.filter(n => n.stringId === 'TEXTE' && n.message)
+        : [];
+    const tocFitsFirstPage = HEADER_BOTTOM_FIRST + 8 + sections.length * TOC_LINE_HEIGHT + TICKS_QUARTER * TICK_SCALE <= PAGE_BOTTOM;
+    const tocPages: ParsedNote[][] = [];
+    if (!tocFitsFirstPage) {
+        for (let i = 0; i < sections.length;) {
+            const top = tocPages.length === 0 ? TOC_TOP_FIRST : MARGIN_TOP;
+            const count = Math.max(1, Math.floor((PAGE_BOTTOM - top - 8) / TOC_LINE_HEIGHT));
+            tocPages.push(sections.slice(i, i + count));
+            i += count;
+        }
+    }
+    const tocHeight = sections.length > 0 && tocFitsFirstPage ? 8 + sections.length * TOC_LINE_HEIGHT : 0;
+
+    // 3. Découper en pages : nouvelle page à chaque PAGE, sinon quand la page est pleine,
+    //    en coupant sur un temps entier pour ne pas séparer un temps sur deux pages
+    const pageBreaks = Array.from(new Set(notes.filter(n => n.isPageBreak).map(n => n.tick))).sort((a, b) => a - b);
+    const pages: { start: number; end: number }[] = [];
+    let pageStart = 0;
+    while (pageStart < totalTicks) {
+        const top = pages.length === 0 && tocPages.length === 0 ? HEADER_BOTTOM_FIRST + tocHeight : HEADER_BOTTOM;
+        const capacity = Math.max(TICKS_QUARTER, Math.floor((PAGE_BOTTOM - top) / TICK_SCALE));
+        const forced = pageBreaks.find(t => t > pageStart);
+        let pageEnd = Math.min(totalTicks, pageStart + capacity);
+
+        if (forced !== undefined && forced <= pageEnd) {
+            pageEnd = forced;
+        } else if (pageEnd < totalTicks) {
+            const lastBeat = beatsInRange(measureMap, pageStart + 1, pageEnd + 1).pop();
+            if (lastBeat) pageEnd = lastBeat.tick;
+        }
+        pages.push({ start: pageStart, end: pageEnd });
+        pageStart = pageEnd;
+    }
+
+    // Entrées d'une page de sommaire ; les numéros comptent les pages de sommaire qui précèdent la musique
+    const drawTableOfContents = (entries: ParsedNote[], continued: boolean) => {
+        const left = CENTER_X - (7 * STRING_SPACING);
+        const right = CENTER_X + (7 * STRING_SPACING);
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(9);
+        doc.setTextColor(93, 64, 55);
+        doc.text(continued ? "Sommaire (suite)" : "Sommaire", left, cursorY + 3);
+
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(8);
+        entries.forEach((section, i) => {
+            const y = cursorY + 8 + i * TOC_LINE_HEIGHT;
+            const page = pages.findIndex(p => section.tick >= p.start && section.tick < p.end) + 1 + tocPages.length;
+            doc.text(section.message || '', left + 4, y);
+            doc.text(`p. ${Math.max(1 + tocPages.length, page)}`, right, y, { align: "right" });
+            doc.setDrawColor(203, 176, 148);
+            doc.setLineDashPattern([0.5, 1], 0);
+            doc.setLineWidth(0.1);
+            doc.line(left + 6 + doc.getTextWidth(section.message || ''), y, right - 10, y);
+            doc.setLineDashPattern([], 0);
+        });
+        cursorY += 8 + entries.length * TOC_LINE_HEIGHT;
+    };
 
     let pageNum = 1;
-    drawPageHeader(pageNum);
+    drawPageHeader(pageNum, tocPages.length === 0);
+    if (tocPages.length > 0) {
+        tocPages.forEach((entries, i) => {
+            if (i > 0) { doc.addPage(); pageNum++; drawPageHeader(pageNum, false); }
+            drawTableOfContents(entries, i > 0);
+        });
+        doc.addPage();
+        pageNum++;
+        drawPageHeader(pageNum);
+    } else if (sections.length > 0) {
+        drawTableOfContents(sections, false);
+    }
 
     // Fonction pour dessiner les sous-lignes (copie du Visualizer)
     const drawSubLine = (y: number, type: 'grey' | 'tight' | 'spaced', label: string) => {
@@ -114,7 +231,7 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
         STRING_CONFIGS.forEach((s: NoteConfig) => {
             const direction = s.hand === 'G' ? -1 : 1;
             const x = CENTER_X + (direction * s.index * STRING_SPACING);
-            const color = hexToRgb(NOTE_COLORS[s.note.charAt(0)] || '#999');
+            const color = colorOf(s, '#999');
             
             doc.setDrawColor(color.r, color.g, color.b); 
             doc.line(x, y1, x, y2);
@@ -127,59 +244,167 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
     };
 
     // Pagination Loop
-    const PAGE_BOTTOM = PAGE_HEIGHT - MARGIN_BOTTOM;
-    let availableHeight = PAGE_BOTTOM - cursorY;
-    let ticksOnPage = Math.floor(availableHeight / TICK_SCALE);
-    
-    let processedTick = 0;
-
-    while (processedTick < totalTicks) {
-        const startTick = processedTick;
-        const endTick = Math.min(totalTicks, startTick + ticksOnPage);
+    pages.forEach(({ start: startTick, end: endTick }, pageIndex) => {
         const endY = cursorY + ((endTick - startTick) * TICK_SCALE);
 
         // 1. Dessiner les cordes verticales sur toute la hauteur de la section
         drawVerticalStrings(cursorY, endY);
 
-        // 2. Itérer tick par tick pour dessiner la grille (comme le Visualizer)
-        // On aligne sur les temps entiers
-        const beatStart = Math.floor(startTick / 12) * 12;
-        const beatEnd = Math.ceil(endTick / 12) * 12;
-
-        for (let t = beatStart; t <= beatEnd; t += 12) {
+        // 2. Dessiner la grille temps par temps (carte des mesures, comme le Visualizer)
+        beatsInRange(measureMap, startTick, endTick + 1).forEach(beatInfo => {
             // Position Y relative à la page
-            const y = cursorY + ((t - startTick) * TICK_SCALE);
+            const y = cursorY + ((beatInfo.tick - startTick) * TICK_SCALE);
             
             if (y >= cursorY && y <= endY) {
-                // Ligne Temps Principal (Noire)
+                // Ligne du temps
                 doc.setDrawColor(0);
-                doc.setLineWidth(0.3);
+                doc.setLineWidth(beatInfo.isDownbeat ? 0.5 : 0.3);
                 doc.line(CENTER_X - (7 * STRING_SPACING), y, CENTER_X + (7 * STRING_SPACING), y);
                 
-                // Numéro du temps
-                const beatNum = Math.floor(t / 12) + 1; // Simplifié, compteur absolu
-                doc.setFontSize(7);
-                doc.setTextColor(93, 64, 55);
-                doc.text(beatNum.toString(), CENTER_X - (7 * STRING_SPACING) - 4, y + 1);
+                // Numéro du temps dans la mesure (et de la mesure sur le 1er temps)
+                if (beatInfo.tick >= TICKS_COUNT_IN) {
+                    doc.setFontSize(7);
+                    doc.setTextColor(93, 64, 55);
+                    doc.text(beatInfo.beat.toString(), CENTER_X - (7 * STRING_SPACING) - 4, y + 1);
+                    if (beatInfo.isDownbeat) {
+                        doc.setTextColor(141, 110, 99);
+                        doc.text(`M${beatInfo.measure}`, CENTER_X - (7 * STRING_SPACING) - 8, y + 1, { align: "right" });
+                    }
+                }
 
                 // Sous-lignes
-                // +6 ticks (1/2)
-                drawSubLine(y + (6 * TICK_SCALE), 'grey', "1/2");
-                // +3, +9 (1/4)
-                drawSubLine(y + (3 * TICK_SCALE), 'tight', "1/4");
-                drawSubLine(y + (9 * TICK_SCALE), 'tight', "1/4");
-                // +1.5 ... (1/8)
-                [1.5, 4.5, 7.5, 10.5].forEach(offset => {
-                    drawSubLine(y + (offset * TICK_SCALE), 'spaced', "1/8");
-                });
+                if (beatInfo.beatTicks === 12) {
+                    // +6 ticks (1/2)
+                    drawSubLine(y + (6 * TICK_SCALE), 'grey', "1/2");
+                    // +3, +9 (1/4)
+                    drawSubLine(y + (3 * TICK_SCALE), 'tight', "1/4");
+                    drawSubLine(y + (9 * TICK_SCALE), 'tight', "1/4");
+                    // +1.5 ... (1/8)
+                    [1.5, 4.5, 7.5, 10.5].forEach(offset => {
+                        drawSubLine(y + (offset * TICK_SCALE), 'spaced', "1/8");
+                    });
+                } else if (beatInfo.beatTicks === 18) {
+                    // Temps ternaire (noire pointée) : 3 croches
+                    drawSubLine(y + (6 * TICK_SCALE), 'grey', "1/3");
+                    drawSubLine(y + (12 * TICK_SCALE), 'grey', "2/3");
+                    [3, 9, 15].forEach(offset => drawSubLine(y + (offset * TICK_SCALE), 'tight', ""));
+                } else {
+                    drawSubLine(y + ((beatInfo.beatTicks / 2) * TICK_SCALE), 'grey', "1/2");
+                }
             }
-        }
+        });
 
         // 3. Dessiner les Notes
         const pageNotes = notes.filter(n => n.tick >= startTick && n.tick < endTick);
 
+        // Queues de résonance des cordes étouffées (STOP), coupées au bas de la page
+        notes.filter(n => n.duration > 0 && n.tick < endTick && n.tick + n.duration > startTick).forEach(n => {
+            const conf = STRING_CONFIGS.find((s: NoteConfig) => s.stringId === n.stringId);
+            if (!conf) return;
+            const x = CENTER_X + ((conf.hand === 'G' ? -1 : 1) * conf.index * STRING_SPACING);
+            const y1 = cursorY + ((Math.max(n.tick, startTick) - startTick) * TICK_SCALE);
+            const stopTick = n.tick + n.duration;
+            const y2 = cursorY + ((Math.min(stopTick, endTick) - startTick) * TICK_SCALE);
+            const color = colorOf(conf, '#000');
+            doc.setDrawColor(color.r, color.g, color.b);
+            doc.setLineWidth(1.2);
+            doc.line(x, y1, x, y2);
+            if (stopTick <= endTick) {
+                doc.setDrawColor(93, 64, 55);
+                doc.setLineWidth(0.4);
+                doc.line(x - 1.5, y2, x + 1.5, y2);
+            }
+        });
+
         pageNotes.forEach(n => {
             const y = cursorY + ((n.tick - startTick) * TICK_SCALE);
+            const gridLeft = CENTER_X - (7 * STRING_SPACING);
+            const gridRight = CENTER_X + (7 * STRING_SPACING);
+
+            // Gestion des reprises (|: :| et 1ère / 2ème fois)
+            if (n.stringId === 'ENDING') {
+                const next = notes.find(m => m.tick > n.tick && (m.stringId === 'ENDING' || m.stringId === 'REPEAT_END'));
+                const yEnd = Math.min(endY, cursorY + (((next ? next.tick : n.tick + 48) - startTick) * TICK_SCALE) - 1);
+                doc.setDrawColor(93, 64, 55);
+                doc.setLineWidth(0.4);
+                doc.line(gridRight, y - 1, gridRight + 5, y - 1);
+                doc.line(gridRight + 5, y - 1, gridRight + 5, yEnd);
+                doc.setFontSize(7);
+                doc.setTextColor(93, 64, 55);
+                doc.setFont("helvetica", "bold");
+                doc.text(`${(n.ending || []).join(',')}.`, gridRight + 6, y + 2);
+                return;
+            }
+
+            if (n.stringId === 'REPEAT_START' || n.stringId === 'REPEAT_END') {
+                const isStart = n.stringId === 'REPEAT_START';
+                doc.setDrawColor(93, 64, 55);
+                doc.setFillColor(93, 64, 55);
+                doc.setLineWidth(0.9);
+                doc.line(gridLeft, isStart ? y - 1.2 : y, gridRight, isStart ? y - 1.2 : y);
+                doc.setLineWidth(0.3);
+                doc.line(gridLeft, isStart ? y : y - 1.2, gridRight, isStart ? y : y - 1.2);
+                [gridLeft + 3, gridRight - 3].forEach(dx => {
+                    doc.circle(dx, isStart ? y + 1.5 : y - 2.7, 0.5, 'F');
+                });
+                if (!isStart) {
+                    doc.setFontSize(7);
+                    doc.setTextColor(93, 64, 55);
+                    doc.setFont("helvetica", "bold");
+                    doc.text(`x${n.repeat || 2}`, gridRight + 2, y + 1);
+                }
+                return;
+            }
+
+            // Tempo (TEMPO / ACCEL / RIT) au bord droit de la grille
+            if (n.stringId === 'TEMPO' || n.stringId === 'ACCEL' || n.stringId === 'RIT') {
+                const label = n.stringId === 'TEMPO' ? `Tempo = ${n.tempo}` : `${n.stringId === 'ACCEL' ? 'accel.' : 'rit.'} -> ${n.tempo}`;
+                doc.setFont("times", "bold");
+                doc.setFontSize(9);
+                doc.setTextColor(93, 64, 55);
+                doc.text(label, gridRight - 1, y - 1.5, { align: "right" });
+                if (n.tempoBeats) {
+                    const yEnd = Math.min(endY, y + n.tempoBeats * TICKS_QUARTER * TICK_SCALE);
+                    doc.setDrawColor(93, 64, 55);
+                    doc.setLineWidth(0.3);
+                    doc.setLineDashPattern([1, 1], 0);
+                    doc.line(gridRight - 2, y, gridRight - 2, yEnd);
+                    doc.setLineDashPattern([], 0);
+                }
+                doc.setFont("helvetica", "normal");
+                return;
+            }
+
+            // Chiffrage (MESURE)
+            if (n.stringId === 'MESURE' && n.meter) {
+                doc.setFont("times", "bold");
+                doc.setFontSize(10);
+                doc.setTextColor(93, 64, 55);
+                doc.text(`${n.meter.numerator}/${n.meter.denominator}`, gridLeft + 1, y - 1.5);
+                doc.setFont("helvetica", "normal");
+                return;
+            }
+
+            // Groove
+            if (n.stringId === 'GROOVE' && n.groove) {
+                const usesSwing = GROOVE_TEMPLATES.find(t => t.id === n.groove!.template)?.usesSwing;
+                doc.setFont("times", "italic");
+                doc.setFontSize(8);
+                doc.setTextColor(93, 64, 55);
+                doc.text(`groove : ${n.groove.template}${usesSwing ? ` ${n.groove.swing}%` : ''}`, gridRight - 1, y + 3, { align: "right" });
+                doc.setFont("helvetica", "normal");
+                return;
+            }
+
+            // Nuance (DYN)
+            if (n.stringId === 'DYN' && n.message) {
+                doc.setFont("times", "bolditalic");
+                doc.setFontSize(10);
+                doc.setTextColor(93, 64, 55);
+                doc.text(n.message, gridLeft + 1, y + 1);
+                doc.setFont("helvetica", "normal");
+                return;
+            }
 
             // Gestion TEXTE
             if (n.stringId === 'TEXTE' && n.message) {
@@ -198,46 +423,52 @@ export const generatePDF = (code: string, title: string = "Tablature Ngonilélé
             if (conf) {
                 const direction = conf.hand === 'G' ? -1 : 1;
                 const x = CENTER_X + (direction * conf.index * STRING_SPACING);
-                const color = hexToRgb(NOTE_COLORS[conf.note.charAt(0)] || '#000');
+                const color = colorOf(conf, '#000');
+                // Taille de la bille selon la vélocité (comme le Visualizer)
+                const radius = NOTE_RADIUS * (0.7 + 0.3 * ((n.velocity ?? DEFAULT_VELOCITY) / DEFAULT_VELOCITY));
                 
                 // Cercle Note (Plein)
                 doc.setFillColor(color.r, color.g, color.b);
                 doc.setDrawColor(50); 
                 doc.setLineWidth(0.1);
-                doc.circle(x, y, NOTE_RADIUS, 'F');
+                doc.circle(x, y, radius, 'F');
                 
                 // Effet de brillance (Petit cercle blanc décalé) - Simule le gradient
                 doc.setFillColor(255, 255, 255);
-                doc.circle(x - 0.7, y - 0.7, NOTE_RADIUS * 0.3, 'F');
+                doc.circle(x - 0.7, y - 0.7, radius * 0.3, 'F');
 
                 // Contour Blanc (anneau)
                 doc.setDrawColor(255, 255, 255);
                 doc.setLineWidth(0.2);
-                doc.circle(x, y, NOTE_RADIUS, 'S');
+                doc.circle(x, y, radius, 'S');
                 
                 // Doigté (P/I) à l'extérieur ou intérieur ? Visualizer le met à coté.
                 // Sur PDF on va le mettre à côté pour lisibilité.
                 if (n.doigt) {
-                    const badgeX = x - NOTE_RADIUS - 2;
+                    const badgeX = x - radius - 2;
                     doc.setTextColor(93, 64, 55);
                     doc.setFontSize(7);
                     doc.setFont("helvetica", "bold");
                     const label = n.doigt === 'P' ? 'P' : 'I'; // Pas d'emoji dans PDF standard
                     doc.text(label, badgeX, y + 1, { align: "right" });
                 }
+
+                if (n.repeat && n.repeat > 1) {
+                    doc.setTextColor(93, 64, 55);
+                    doc.setFontSize(6);
+                    doc.setFont("helvetica", "bold");
+                    doc.text(`x${n.repeat}`, x + radius + 0.8, y + 1);
+                }
             }
         });
 
         // Préparer page suivante
-        processedTick = endTick;
-        if (processedTick < totalTicks) {
+        if (pageIndex < pages.length - 1) {
             doc.addPage();
             pageNum++;
             drawPageHeader(pageNum);
-            availableHeight = PAGE_BOTTOM - cursorY;
-            ticksOnPage = Math.floor(availableHeight / TICK_SCALE);
         }
-    }
+    });
 
     // Pied de page
     doc.setFontSize(8);
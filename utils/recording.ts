@@ -0,0 +1,47 @@
+import { ParsedNote, RecordedHit, RecordGrid, TakeMode, TICKS_COUNT_IN } from '../types';
+import { STRING_CONFIGS, RECORD_GRIDS } from '../constants';
+import { quantizeTick } from './midi';
+
+// Écart max (ms) entre deux note-on joués ensemble (accord)
+export const CHORD_WINDOW_MS = 35;
+
+const isStringNote = (note: ParsedNote) => STRING_CONFIGS.some(s => s.stringId === note.stringId);
+
+export const quantizeToGrid = (tick: number, grid: RecordGrid): number => {
+  const step = RECORD_GRIDS.find(g => g.id === grid)?.ticks;
+  return step ? Math.round(tick / step) * step : quantizeTick(tick);
+};
+
+/**
+ * Prise MIDI -> notes de tablature (ticks absolus). Les note-on à moins de CHORD_WINDOW_MS
+ * du premier coup d'un accord prennent son tick (accord `=`), puis chaque accord est aligné
+ * sur la grille. Une corde jouée deux fois au même tick n'est gardée qu'une fois.
+ */
+export const quantizeTake = (hits: RecordedHit[], grid: RecordGrid): ParsedNote[] => {
+  const notes: ParsedNote[] = [];
+  const used = new Set<string>();
+  let chordStart: RecordedHit | null = null;
+
+  [...hits].sort((a, b) => a.time - b.time).forEach((hit, i) => {
+    if (!chordStart || hit.time - chordStart.time > CHORD_WINDOW_MS) chordStart = hit;
+    const tick = Math.max(TICKS_COUNT_IN, quantizeToGrid(chordStart.tick, grid));
+    const key = `${tick}-${hit.stringId}`;
+    if (used.has(key)) return;
+    used.add(key);
+    notes.push({ id: `take-${i}`, tick, duration: 0, stringId: hit.stringId, doigt: hit.finger, dynamicMark: hit.dynamicMark, lineIndex: -1 });
+  });
+  return notes;
+};
+
+/**
+ * Ajoute une prise à la partition. 'overwrite' retire d'abord les notes de cordes de la plage
+ * enregistrée [startTick, endTick] (textes et commandes restent) ; 'merge' garde tout et ignore
+ * les notes de la prise déjà présentes (même corde, même tick).
+ */
+export const applyTake = (existing: ParsedNote[], take: ParsedNote[], mode: TakeMode, range: { startTick: number; endTick: number }): ParsedNote[] => {
+  const kept = mode === 'overwrite'
+    ? existing.filter(n => !isStringNote(n) || n.tick < range.startTick || n.tick > range.endTick)
+    : existing;
+  const present = new Set(kept.filter(isStringNote).map(n => `${n.tick}-${n.stringId}`));
+  return [...kept, ...take.filter(n => !present.has(`${n.tick}-${n.stringId}`))];
+};
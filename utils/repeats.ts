@@ -0,0 +1,122 @@
+import { ParsedNote, TimelineSegment, ExpandedTimeline } from '../types';
+
+export const REPEAT_MARKERS = ['REPEAT_START', 'REPEAT_END', 'ENDING'];
+
+export const isRepeatMarker = (note: ParsedNote) => REPEAT_MARKERS.includes(note.stringId);
+
+// Portion de la tablature compacte à jouer, dans l'ordre de lecture
+interface PlayRange {
+  from: number;
+  to: number;
+  // Extra pass of an xN note: only notes at `from` with at least this many passes play
+  notePass?: number;
+}
+
+// Reprises REPEAT_START / ENDING / REPEAT_END -> suite de plages compactes
+const buildBlockRanges = (notes: ParsedNote[]): PlayRange[] => {
+  const ranges: PlayRange[] = [];
+  let cursor = 0;
+  let start: ParsedNote | null = null;
+  let endings: ParsedNote[] = [];
+
+  notes.filter(isRepeatMarker).forEach(marker => {
+    if (marker.stringId === 'REPEAT_START') {
+      start = marker;
+      endings = [];
+    } else if (marker.stringId === 'ENDING') {
+      if (start) endings.push(marker);
+    } else if (marker.stringId === 'REPEAT_END' && start) {
+      const s: ParsedNote = start;
+      const e = marker.tick;
+      const passes = marker.repeat || 2;
+      const commonEnd = endings.length > 0 ? endings[0].tick : e;
+
+      if (s.tick > cursor) ranges.push({ from: cursor, to: s.tick });
+      for (let pass = 1; pass <= passes; pass++) {
+        if (commonEnd > s.tick) ranges.push({ from: s.tick, to: commonEnd });
+        endings.forEach((ending, i) => {
+          const to = i + 1 < endings.length ? endings[i + 1].tick : e;
+          if (ending.ending?.includes(pass) && to > ending.tick) ranges.push({ from: ending.tick, to });
+        });
+      }
+      cursor = e;
+      start = null;
+      endings = [];
+    }
+  });
+
+  ranges.push({ from: cursor, to: Infinity });
+  return ranges;
+};
+
+// Découpe une plage autour des notes xN pour rejouer leur durée
+const splitNoteRepeats = (range: PlayRange, notes: ParsedNote[]): PlayRange[] => {
+  const repeated = notes.filter(n => (n.repeat || 1) > 1 && n.repeatSpan && !isRepeatMarker(n) && n.tick >= range.from && n.tick < range.to);
+  if (repeated.length === 0) return [range];
+
+  const ticks = Array.from(new Set(repeated.map(n => n.tick))).sort((a, b) => a - b);
+  const result: PlayRange[] = [];
+  let cursor = range.from;
+
+  ticks.forEach(tick => {
+    if (tick < cursor) return;
+    const atTick = repeated.filter(n => n.tick === tick);
+    const passes = Math.max(...atTick.map(n => n.repeat || 1));
+    const span = Math.min(Math.max(...atTick.map(n => n.repeatSpan || 0)), range.to - tick);
+    if (span <= 0) return;
+
+    result.push({ from: cursor, to: tick + span });
+    for (let pass = 2; pass <= passes; pass++) {
+      result.push({ from: tick, to: tick + span, notePass: pass });
+    }
+    cursor = tick + span;
+  });
+
+  if (range.to > cursor) result.push({ from: cursor, to: range.to });
+  return result;
+};
+
+/**
+ * Déplie les reprises pour la lecture : renvoie les événements dans l'ordre joué
+ * (marqueurs de reprise retirés) et la correspondance temps joué -> temps affiché.
+ */
+export const expandRepeats = (notes: ParsedNote[]): ExpandedTimeline => {
+  const ranges = buildBlockRanges(notes).flatMap(r => splitNoteRepeats(r, notes));
+  const events = notes.filter(n => !isRepeatMarker(n));
+
+  const expanded: ParsedNote[] = [];
+  const segments: TimelineSegment[] = [];
+  const emitted = new Set<string>();
+  let out = 0;
+
+  ranges.forEach((range, rangeIndex) => {
+    const length = range.to - range.from;
+    if (length <= 0) return;
+
+    events.forEach(n => {
+      if (n.tick < range.from || n.tick >= range.to) return;
+      if (range.notePass !== undefined && (n.tick !== range.from || (n.repeat || 1) < range.notePass)) return;
+      expanded.push({ ...n, id: emitted.has(n.id) ? `${n.id}#${rangeIndex}` : n.id, tick: out + (n.tick - range.from) });
+      emitted.add(n.id);
+    });
+
+    segments.push({ start: out, end: out + length, sourceStart: range.from });
+    out += length;
+  });
+
+  return { notes: expanded.sort((a, b) => a.tick - b.tick), segments };
+};
+
+// Tick joué -> tick de la tablature (pour le curseur)
+export const toSourceTick = (segments: TimelineSegment[], tick: number): number => {
+  const segment = segments.find(s => tick >= s.start && tick < s.end);
+  if (!segment) return tick;
+  return segment.sourceStart + (tick - segment.start);
+};
+
+// Tick de la tablature -> premier tick joué correspondant (pour le seek)
+export const toPlaybackTick = (segments: TimelineSegment[], tick: number): number => {
+  const segment = segments.find(s => tick >= s.sourceStart && tick < s.sourceStart + (s.end - s.start));
+  if (!segment) return tick;
+  return segment.start + (tick - segment.sourceStart);
+};
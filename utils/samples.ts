@@ -0,0 +1,90 @@
+import { ASSETS_BASE_URL } from '../constants';
+import { SamplePack } from '../types';
+
+// Samples servis par le build (dossier public/samples), puis le dépôt GitHub en secours (samples/ à sa racine)
+const LOCAL_SAMPLES_URL = `${import.meta.env.BASE_URL}samples/`;
+const REMOTE_SAMPLES_URL = `${ASSETS_BASE_URL}samples/`;
+
+// Cache API : les mp3 déjà téléchargés restent disponibles hors connexion
+const SAMPLE_CACHE = 'ngonilele-samples-v1';
+
+export type SampleOrigin = 'cache' | 'local' | 'remote' | 'recording';
+
+const openCache = async (): Promise<Cache | null> => {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(SAMPLE_CACHE);
+  } catch (e) {
+    return null; // Contexte non sécurisé (http) ou stockage refusé
+  }
+};
+
+/**
+ * Données encodées (mp3) d'un fichier des samples livrés : cache, puis build local, puis dépôt distant.
+ * Un fichier téléchargé est mis en cache. Lève une erreur si aucune source ne répond.
+ */
+const fetchBundledSample = async (file: string): Promise<{ data: ArrayBuffer; origin: SampleOrigin }> => {
+  const cache = await openCache();
+  const cacheKey = `${LOCAL_SAMPLES_URL}${encodeURIComponent(file)}`;
+
+  const cached = cache ? await cache.match(cacheKey) : undefined;
+  if (cached) return { data: await cached.arrayBuffer(), origin: 'cache' };
+
+  const sources: [SampleOrigin, string][] = [['local', cacheKey], ['remote', `${REMOTE_SAMPLES_URL}${encodeURIComponent(file)}`]];
+  for (const [origin, url] of sources) {
+    try {
+      const response = await fetch(url);
+      // Le serveur de dev renvoie index.html pour un fichier absent
+      if (!response.ok || (response.headers.get('content-type') || '').includes('text/html')) continue;
+      if (cache) await cache.put(cacheKey, response.clone()).catch(() => undefined);
+      return { data: await response.arrayBuffer(), origin };
+    } catch (e) {
+      // Hors connexion : on essaie la source suivante
+    }
+  }
+  throw new Error(`Sample ${file} introuvable (build local et ${REMOTE_SAMPLES_URL}).`);
+};
+
+// --- ENREGISTREMENTS PERSONNELS (IndexedDB) ---
+
+const DB_NAME = 'ngonilele-samples';
+const RECORDINGS_STORE = 'recordings'; // Clé : "<packId>/<fichier>", valeur : Blob
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(RECORDINGS_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(RECORDINGS_STORE, mode).objectStore(RECORDINGS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const recordingKey = (packId: string, file: string) => `${packId}/${file}`;
+
+export const saveRecording = (packId: string, file: string, data: Blob) =>
+  withStore('readwrite', store => store.put(data, recordingKey(packId, file)));
+
+// Supprime tous les enregistrements d'un pack personnel
+export const deleteRecordings = (packId: string) =>
+  withStore('readwrite', store => store.delete(IDBKeyRange.bound(`${packId}/`, `${packId}/\uffff`)));
+
+/**
+ * Données encodées d'une note d'un pack : fichier livré ou enregistrement personnel.
+ * Lève une erreur si le fichier est introuvable.
+ */
+export const fetchSampleData = async (pack: SamplePack, note: string): Promise<{ data: ArrayBuffer; origin: SampleOrigin }> => {
+  const entry = pack.samples[note];
+  if (!entry) throw new Error(`Note ${note} absente du pack ${pack.name}.`);
+  if (!pack.custom) return fetchBundledSample(entry.file);
+
+  const blob = await withStore<Blob | undefined>('readonly', store => store.get(recordingKey(pack.id, entry.file)));
+  if (!blob) throw new Error(`Enregistrement ${entry.file} introuvable dans ${pack.name}.`);
+  return { data: await blob.arrayBuffer(), origin: 'recording' };
+};
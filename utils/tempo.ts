@@ -0,0 +1,78 @@
+import { ParsedNote, TempoSegment, TICKS_QUARTER } from '../types';
+
+export const TEMPO_COMMANDS = ['TEMPO', 'ACCEL', 'RIT'];
+
+// Secondes par tick à 1 BPM : 60 s / 12 ticks par noire
+const SECONDS_PER_TICK_AT_1_BPM = 60 / TICKS_QUARTER;
+
+/**
+ * Construit la carte de tempo à partir des commandes TEMPO / ACCEL / RIT (ticks joués).
+ * Avant la première commande on joue à `baseBpm`. Une rampe interrompue par la commande
+ * suivante s'arrête au tempo atteint à ce moment-là.
+ */
+export const buildTempoMap = (events: ParsedNote[], baseBpm: number, speed: number = 1): TempoSegment[] => {
+  const changes = events
+    .filter(e => TEMPO_COMMANDS.includes(e.stringId) && e.tempo)
+    .sort((a, b) => a.tick - b.tick);
+
+  const segments: TempoSegment[] = [];
+  let bpm = baseBpm * speed;
+  let tick = 0;
+  let seconds = 0;
+
+  const push = (endTick: number, endBpm: number) => {
+    if (endTick <= tick) return;
+    const segment: TempoSegment = { startTick: tick, endTick, startBpm: bpm, endBpm, startSeconds: seconds };
+    seconds += segmentSeconds(segment, endTick);
+    segments.push(segment);
+    tick = endTick;
+    bpm = endBpm;
+  };
+
+  changes.forEach((change, i) => {
+    push(change.tick, bpm);
+    const target = change.tempo! * speed;
+    if (change.stringId === 'TEMPO' || !change.tempoBeats) {
+      bpm = target;
+      return;
+    }
+    const rampEnd = change.tick + change.tempoBeats * TICKS_QUARTER;
+    const next = changes[i + 1];
+    const end = next ? Math.min(rampEnd, next.tick) : rampEnd;
+    const reached = bpm + (target - bpm) * ((end - change.tick) / (rampEnd - change.tick));
+    push(end, reached);
+  });
+
+  segments.push({ startTick: tick, endTick: Infinity, startBpm: bpm, endBpm: bpm, startSeconds: seconds });
+  return segments;
+};
+
+// Durée (s) entre le début du segment et `tick` ; rampe linéaire en ticks : ∫ 5 / bpm(t) dt
+const segmentSeconds = (segment: TempoSegment, tick: number): number => {
+  const x = tick - segment.startTick;
+  const slope = segment.endTick === Infinity ? 0 : (segment.endBpm - segment.startBpm) / (segment.endTick - segment.startTick);
+  if (Math.abs(slope) < 1e-9) return (x * SECONDS_PER_TICK_AT_1_BPM) / segment.startBpm;
+  return (SECONDS_PER_TICK_AT_1_BPM / slope) * Math.log((segment.startBpm + slope * x) / segment.startBpm);
+};
+
+const findSegment = (map: TempoSegment[], predicate: (s: TempoSegment) => boolean) =>
+  map.find(predicate) || map[map.length - 1];
+
+export const tickToSeconds = (map: TempoSegment[], tick: number): number => {
+  const segment = tick < 0 ? map[0] : findSegment(map, s => tick < s.endTick);
+  return segment.startSeconds + segmentSeconds(segment, tick);
+};
+
+export const secondsToTick = (map: TempoSegment[], seconds: number): number => {
+  const segment = seconds < 0 ? map[0] : findSegment(map, s => s.endTick === Infinity || seconds < s.startSeconds + segmentSeconds(s, s.endTick));
+  const elapsed = seconds - segment.startSeconds;
+  const slope = segment.endTick === Infinity ? 0 : (segment.endBpm - segment.startBpm) / (segment.endTick - segment.startTick);
+  if (Math.abs(slope) < 1e-9) return segment.startTick + (elapsed * segment.startBpm) / SECONDS_PER_TICK_AT_1_BPM;
+  return segment.startTick + (segment.startBpm / slope) * (Math.exp((elapsed * slope) / SECONDS_PER_TICK_AT_1_BPM) - 1);
+};
+
+export const bpmAt = (map: TempoSegment[], tick: number): number => {
+  const segment = findSegment(map, s => tick < s.endTick);
+  if (segment.endTick === Infinity) return segment.startBpm;
+  return segment.startBpm + (segment.endBpm - segment.startBpm) * ((tick - segment.startTick) / (segment.endTick - segment.startTick));
+};
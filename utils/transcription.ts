@@ -0,0 +1,506 @@
+import { DetectedNote, RecordedHit, TickAnchor, Tuning, TICKS_QUARTER, TICKS_COUNT_IN } from '../types';
+import { noteNameToMidi } from './midi';
+
+// --- LECTURE WAV (PCM 16 bits, comme exportWav) ---
+
+/**
+ * Décode un fichier WAV PCM 16 bits en un signal mono (moyenne des canaux).
+ * Lève une erreur pour un autre format.
+ */
+export const readWav = (buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 44 || view.getUint32(0) !== 0x52494646 || view.getUint32(8) !== 0x57415645) {
+    throw new Error("Fichier WAV invalide (en-tête RIFF/WAVE absent).");
+  }
+
+  let format = 0, channels = 0, sampleRate = 0, bits = 0;
+  let pos = 12;
+  while (pos + 8 <= view.byteLength) {
+    const chunkId = view.getUint32(pos);
+    const chunkSize = view.getUint32(pos + 4, true);
+    pos += 8;
+    if (chunkId === 0x666d7420) { // "fmt "
+      format = view.getUint16(pos, true);
+      channels = view.getUint16(pos + 2, true);
+      sampleRate = view.getUint32(pos + 4, true);
+      bits = view.getUint16(pos + 14, true);
+    } else if (chunkId === 0x64617461) { // "data"
+      if (format !== 1 || bits !== 16 || channels === 0) throw new Error("Seuls les WAV PCM 16 bits sont supportés.");
+      const frames = Math.floor(Math.min(chunkSize, view.byteLength - pos) / (2 * channels));
+      const samples = new Float32Array(frames);
+      for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += view.getInt16(pos + (f * channels + c) * 2, true) / 32768;
+        samples[f] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    pos += chunkSize + (chunkSize % 2);
+  }
+  throw new Error("Fichier WAV sans données audio.");
+};
+
+// --- ATTAQUES (ONSETS) ---
+
+const HOP_SECONDS = 0.005;
+const WINDOW_SECONDS = 0.02;
+const LOOKBACK_FRAMES = 4;   // Reference level: quietest of the previous 20 ms
+const ONSET_RISE = 1.5;      // RMS ratio over the reference level (~3.5 dB)
+const MIN_ONSET_GAP = 0.06;  // s; notes closer than this are one attack (chord)
+const SILENCE_RATIO = 0.03;  // Frames below 3% of the loudest frame are never onsets
+
+/**
+ * Attaques d'un signal (indices d'échantillon) : montée brusque de l'énergie RMS par rapport
+ * aux 20 ms précédentes, puis premier échantillon franchement au-dessus du niveau d'avant.
+ */
+export const detectOnsets = (samples: Float32Array, sampleRate: number): number[] => {
+  const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const win = Math.max(hop, Math.round(sampleRate * WINDOW_SECONDS));
+  const rms: number[] = [];
+  for (let start = 0; start + win <= samples.length; start += hop) {
+    let sum = 0;
+    for (let j = start; j < start + win; j++) sum += samples[j] * samples[j];
+    rms.push(Math.sqrt(sum / win));
+  }
+
+  const floor = Math.max(1e-4, rms.reduce((max, v) => Math.max(max, v), 0) * SILENCE_RATIO);
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+  for (let i = 1; i < rms.length; i++) {
+    const reference = Math.min(...rms.slice(Math.max(0, i - LOOKBACK_FRAMES), i));
+    if (rms[i] < floor || rms[i] < reference * ONSET_RISE || i * hop - lastOnset < MIN_ONSET_GAP * sampleRate) continue;
+
+    // Position fine : premier échantillon au-dessus du niveau précédent (ou de 30% du pic de la fenêtre)
+    let peak = 0;
+    for (let j = i * hop; j < i * hop + win; j++) peak = Math.max(peak, Math.abs(samples[j]));
+    const threshold = Math.max(reference * 2 * Math.SQRT2, peak * 0.3);
+    let onset = i * hop;
+    while (onset < i * hop + win - 1 && Math.abs(samples[onset]) < threshold) onset++;
+
+    onsets.push(onset);
+    lastOnset = onset;
+  }
+  return onsets;
+};
+
+// --- HAUTEUR (YIN) ---
+
+/**
+ * Fréquence fondamentale d'une trame par l'algorithme YIN (de Cheveigné & Kawahara, 2002) :
+ * différence cumulée normalisée, premier creux sous `threshold`, interpolation parabolique.
+ * `clarity` = 1 - creux (1 = signal parfaitement périodique). null si rien de périodique.
+ */
+export const yinPitch = (frame: Float32Array, sampleRate: number, minFreq: number = 70, maxFreq: number = 1500, threshold: number = 0.15): { frequency: number; clarity: number } | null => {
+  const maxTau = Math.min(Math.floor(sampleRate / minFreq), Math.floor(frame.length / 2));
+  const minTau = Math.max(2, Math.floor(sampleRate / maxFreq));
+  if (maxTau <= minTau + 1) return null;
+  const width = frame.length - maxTau;
+
+  const cmnd = new Float32Array(maxTau + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let d = 0;
+    for (let j = 0; j < width; j++) {
+      const delta = frame[j] - frame[j + tau];
+      d += delta * delta;
+    }
+    running += d;
+    cmnd[tau] = running > 0 ? (d * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = minTau; t < maxTau; t++) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 < maxTau && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau === -1) {
+    // Pas de creux sous le seuil : le meilleur creux, s'il reste nettement périodique
+    tau = minTau;
+    for (let t = minTau; t < maxTau; t++) if (cmnd[t] < cmnd[tau]) tau = t;
+    if (cmnd[tau] > 0.5) return null;
+  }
+
+  const prev = cmnd[tau - 1], next = cmnd[tau + 1] ?? cmnd[tau];
+  const denominator = prev + next - 2 * cmnd[tau];
+  const refined = denominator > 0 ? tau + (prev - next) / (2 * denominator) : tau;
+  return { frequency: sampleRate / refined, clarity: Math.max(0, 1 - cmnd[tau]) };
+};
+
+// --- NOTES -> CORDES ---
+
+const MAX_CENTS = 60;       // Farther than this from every string: not a note of the tuning
+const OCTAVE_PENALTY = 0.7; // Confidence kept when YIN is an octave off
+const PITCH_DELAY = 0.03;   // s after the attack: skip the pluck noise
+const PITCH_FRAME = 0.06;   // s analysed per note
+
+const stringFrequencies = (tuning: Tuning) =>
+  Object.entries(tuning)
+    .map(([stringId, note]) => ({ stringId, midi: noteNameToMidi(note) }))
+    .filter((s): s is { stringId: string; midi: number } => s.midi !== null)
+    .map(s => ({ stringId: s.stringId, frequency: 440 * Math.pow(2, (s.midi - 69) / 12) }));
+
+// Corde accordée la plus proche (en cents), en tolérant une erreur d'octave de l'estimation
+const nearestString = (frequency: number, strings: { stringId: string; frequency: number }[]) => {
+  for (const [factor, penalty] of [[1, 1], [2, OCTAVE_PENALTY], [0.5, OCTAVE_PENALTY]]) {
+    const best = strings
+      .map(s => ({ ...s, cents: 1200 * Math.log2((frequency * factor) / s.frequency) }))
+      .sort((a, b) => Math.abs(a.cents) - Math.abs(b.cents))[0];
+    if (best && Math.abs(best.cents) <= MAX_CENTS) return { stringId: best.stringId, cents: best.cents, penalty };
+  }
+  return null;
+};
+
+/**
+ * Transcrit un signal mono : attaques, hauteur de chaque note (YIN sur la trame qui suit
+ * l'attaque), corde la plus proche dans l'accordage. Une seule note par attaque (la plus forte
+ * d'un accord). Les notes sous `minConfidence` sont écartées.
+ */
+export const detectNotes = (samples: Float32Array, sampleRate: number, tuning: Tuning, minConfidence: number = 0.2): DetectedNote[] => {
+  const strings = stringFrequencies(tuning);
+  const onsets = detectOnsets(samples, sampleRate);
+  const frameLength = Math.round(PITCH_FRAME * sampleRate);
+
+  const notes: DetectedNote[] = [];
+  onsets.forEach((onset, i) => {
+    const limit = Math.min(samples.length, onsets[i + 1] ?? samples.length);
+    // Trame après le bruit d'attaque, ou dès l'attaque si la note suivante arrive trop vite
+    let start = onset + Math.round(PITCH_DELAY * sampleRate);
+    if (start + frameLength > limit) start = onset + Math.round(0.005 * sampleRate);
+    const frame = samples.subarray(start, Math.min(limit, start + frameLength));
+    const pitch = yinPitch(frame, sampleRate);
+    if (!pitch) return;
+
+    const match = nearestString(pitch.frequency, strings);
+    if (!match) return;
+    const confidence = pitch.clarity * (1 - Math.abs(match.cents) / 100) * match.penalty;
+    if (confidence < minConfidence) return;
+    notes.push({ time: onset / sampleRate, stringId: match.stringId, frequency: pitch.frequency, confidence });
+  });
+  return notes;
+};
+
+// Notes détectées -> coups horodatés pour quantizeTake (`timeToTick` : secondes de l'audio -> tick)
+export const detectionsToHits = (notes: DetectedNote[], timeToTick: (seconds: number) => number): RecordedHit[] =>
+  notes.map(n => ({ tick: timeToTick(n.time), time: n.time * 1000, stringId: n.stringId }));
+
+/**
+ * Tick entendu à `time` d'après les repères relevés pendant la capture : interpolation entre
+ * les deux repères qui l'encadrent, ou repère le plus proche quand la lecture a sauté entre eux
+ * (tour de boucle, reprise).
+ */
+export const anchorTick = (anchors: TickAnchor[], time: number): number => {
+  if (anchors.length === 0) return 0;
+  const next = anchors.findIndex(a => a.time > time);
+  if (next === 0) return anchors[0].tick;
+  if (next === -1) return anchors[anchors.length - 1].tick;
+  const a = anchors[next - 1], b = anchors[next];
+  if (b.tick < a.tick) return time - a.time <= b.time - time ? a.tick : b.tick;
+  return a.tick + ((b.tick - a.tick) * (time - a.time)) / (b.time - a.time);
+};
+
+// --- TRANSCRIPTION POLYPHONIQUE (FICHIER AUDIO) ---
+
+const ANALYSIS_RATE = 22050; // Les enregistrements sont ramenés vers ce taux (analyse jusqu'à ~11 kHz)
+const FLUX_FRAME = 1024;     // ~46 ms à 22 kHz
+const FLUX_HOP = 256;        // ~12 ms
+const NOTE_FFT = 4096;       // ~5 Hz par case à 22 kHz (un demi-ton vaut ~10 Hz sur la corde la plus grave)
+const NOTE_WINDOW = 0.12;    // s analysés après chaque attaque (moins si la suivante arrive avant)
+const NOTE_DELAY = 0.02;     // s sautés après l'attaque (bruit du pincement)
+const HARMONICS = 8;
+const MAX_POLYPHONY = 3;     // Cordes nouvelles retenues au plus par attaque
+const POLY_RATIO = 0.35;     // Une corde de plus doit peser au moins 35% de la première
+const ONSET_GAP = 0.05;      // s entre deux attaques distinctes
+const ENERGY_FLOOR = 0.03;   // Attaque ignorée si sa trame pèse moins de 3% (RMS) de la plus forte
+
+const fftTables = new Map<number, { cos: Float64Array; sin: Float64Array; rev: Uint32Array }>();
+
+// FFT radix 2 en place (taille : puissance de 2)
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  let tables = fftTables.get(n);
+  if (!tables) {
+    const bits = Math.log2(n);
+    const rev = new Uint32Array(n);
+    for (let i = 0; i < n; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+      rev[i] = r;
+    }
+    const cos = new Float64Array(n / 2), sin = new Float64Array(n / 2);
+    for (let i = 0; i < n / 2; i++) { cos[i] = Math.cos((2 * Math.PI * i) / n); sin[i] = -Math.sin((2 * Math.PI * i) / n); }
+    tables = { cos, sin, rev };
+    fftTables.set(n, tables);
+  }
+  const { cos, sin, rev } = tables;
+  for (let i = 0; i < n; i++) {
+    const j = rev[i];
+    if (j > i) { [re[i], re[j]] = [re[j], re[i]]; [im[i], im[j]] = [im[j], im[i]]; }
+  }
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2, step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const a = start + k, b = a + half;
+        const tre = re[b] * cos[k * step] - im[b] * sin[k * step];
+        const tim = re[b] * sin[k * step] + im[b] * cos[k * step];
+        re[b] = re[a] - tre; im[b] = im[a] - tim;
+        re[a] += tre; im[a] += tim;
+      }
+    }
+  }
+};
+
+// Spectre d'amplitude de samples[start, start + length) (fenêtre de Hann), complété de zéros jusqu'à `size`
+const magnitudeSpectrum = (samples: Float32Array, start: number, length: number, size: number): Float64Array => {
+  const re = new Float64Array(size), im = new Float64Array(size);
+  const n = Math.min(length, size);
+  for (let i = 0; i < n; i++) {
+    const index = start + i;
+    if (index < 0 || index >= samples.length) continue;
+    re[i] = samples[index] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, n - 1)));
+  }
+  fft(re, im);
+  const magnitude = new Float64Array(size / 2);
+  for (let i = 0; i < size / 2; i++) magnitude[i] = Math.hypot(re[i], im[i]);
+  return magnitude;
+};
+
+// Ramène le signal vers ANALYSIS_RATE (moyenne de `factor` échantillons : filtre passe-bas sommaire)
+const downsample = (samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+};
+
+/**
+ * Force d'attaque (flux spectral) : somme des hausses du spectre log d'une trame à la suivante.
+ * Contrairement au RMS, une corde qui entre pendant qu'une autre résonne fait un pic.
+ * `energy` : RMS de chaque trame, pour écarter les pics du bruit de fond.
+ */
+export const onsetStrength = (samples: Float32Array, sampleRate: number): { envelope: Float64Array; energy: Float64Array; hopSeconds: number; frameSeconds: number } => {
+  const frames = Math.max(0, Math.floor((samples.length - FLUX_FRAME) / FLUX_HOP) + 1);
+  const envelope = new Float64Array(frames);
+  const energy = new Float64Array(frames);
+  let previous: Float64Array | null = null;
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * FLUX_HOP; i < f * FLUX_HOP + FLUX_FRAME; i++) sum += samples[i] * samples[i];
+    energy[f] = Math.sqrt(sum / FLUX_FRAME);
+    const spectrum = magnitudeSpectrum(samples, f * FLUX_HOP, FLUX_FRAME, FLUX_FRAME).map(m => Math.log1p(100 * m));
+    if (previous) {
+      let flux = 0;
+      for (let i = 1; i < spectrum.length; i++) flux += Math.max(0, spectrum[i] - previous[i]);
+      envelope[f] = flux;
+    }
+    previous = spectrum;
+  }
+  return { envelope, energy, hopSeconds: FLUX_HOP / sampleRate, frameSeconds: FLUX_FRAME / sampleRate };
+};
+
+/**
+ * Pics de la force d'attaque (en secondes) : maximum local au-dessus de la moyenne environnante.
+ * Écartés : les pics du bruit de fond (trame sous ENERGY_FLOOR) et ceux des NOTE_WINDOW dernières
+ * secondes, trop courtes pour reconnaître les cordes (fin de résonance, coupure du fichier).
+ */
+export const pickOnsets = (envelope: Float64Array, energy: Float64Array, hopSeconds: number, frameSeconds: number): number[] => {
+  const peak = envelope.reduce((max, v) => Math.max(max, v), 0);
+  if (peak === 0) return [];
+  const loudest = energy.reduce((max, v) => Math.max(max, v), 0);
+  const duration = (envelope.length - 1) * hopSeconds + frameSeconds;
+  const near = Math.max(1, Math.round(0.03 / hopSeconds));
+  const around = Math.max(near, Math.round(0.15 / hopSeconds));
+  const onsets: number[] = [];
+  for (let i = 1; i < envelope.length; i++) {
+    let isMax = true, sum = 0, count = 0;
+    for (let j = Math.max(0, i - around); j <= Math.min(envelope.length - 1, i + around); j++) {
+      if (Math.abs(j - i) <= near && envelope[j] > envelope[i]) isMax = false;
+      sum += envelope[j]; count++;
+    }
+    if (!isMax || envelope[i] < (sum / count) * 1.5 || envelope[i] < peak * 0.08) continue;
+    // La hausse apparaît quand l'attaque atteint le milieu de la trame
+    const time = i * hopSeconds + frameSeconds / 2;
+    if (time > duration - NOTE_WINDOW || energy[i] < loudest * ENERGY_FLOOR) continue;
+    if (onsets.length > 0 && time - onsets[onsets.length - 1] < ONSET_GAP) continue;
+    onsets.push(time);
+  }
+  return onsets;
+};
+
+/**
+ * Tempo (BPM) par autocorrélation de la force d'attaque, pondérée autour de 110 BPM, puis
+ * position du premier temps : la phase qui tombe sur le plus d'attaques. L'enveloppe est lissée
+ * et l'autocorrélation interpolée entre deux décalages entiers : sinon les pics d'une trame se
+ * manquent quand la période tombe entre deux trames, et le double de la période l'emporte.
+ */
+export const estimateTempo = (envelope: Float64Array, hopSeconds: number, frameSeconds: number): { bpm: number; firstBeat: number } => {
+  const mean = envelope.reduce((s, v) => s + v, 0) / Math.max(1, envelope.length);
+  const centered = envelope.map(v => Math.max(0, v - mean));
+  const smoothed = centered.map((_, i) => {
+    let sum = 0;
+    for (let j = -2; j <= 2; j++) sum += (centered[i + j] ?? 0) * (3 - Math.abs(j));
+    return sum / 9;
+  });
+
+  const maxLag = Math.ceil((2 * 60) / 50 / hopSeconds) + 1;
+  const autocorrelation = new Float64Array(maxLag + 1);
+  for (let l = 1; l <= maxLag; l++) {
+    let ac = 0;
+    for (let i = 0; i + l < smoothed.length; i++) ac += smoothed[i] * smoothed[i + l];
+    autocorrelation[l] = ac;
+  }
+  const acAt = (lag: number) => {
+    const l = Math.floor(lag), f = lag - l;
+    return autocorrelation[l] * (1 - f) + (autocorrelation[l + 1] ?? 0) * f;
+  };
+
+  let best = { bpm: 100, score: -Infinity };
+  for (let bpm = 50; bpm <= 200; bpm++) {
+    const lag = 60 / bpm / hopSeconds;
+    const score = (acAt(lag) + acAt(lag * 2) / 2) * Math.exp(-0.5 * Math.pow(Math.log2(bpm / 110), 2));
+    if (score > best.score) best = { bpm, score };
+  }
+
+  const period = 60 / best.bpm / hopSeconds;
+  let phase = { offset: 0, score: -Infinity };
+  for (let offset = 0; offset < period; offset++) {
+    let score = 0;
+    for (let i = offset; i < centered.length; i += period) score += centered[Math.round(i)] ?? 0;
+    if (score > phase.score) phase = { offset, score };
+  }
+  return { bpm: best.bpm, firstBeat: phase.offset * hopSeconds + frameSeconds / 2 };
+};
+
+// Salience d'une fondamentale : amplitudes (pondérées 1/h) des harmoniques, à ±30 cents près
+const salience = (spectrum: Float64Array, f0: number, binHz: number): number => {
+  let total = 0;
+  for (let h = 1; h <= HARMONICS; h++) {
+    const lo = Math.floor((h * f0 * 0.983) / binHz), hi = Math.ceil((h * f0 * 1.017) / binHz);
+    if (hi >= spectrum.length) break;
+    let max = 0;
+    for (let b = lo; b <= hi; b++) max = Math.max(max, spectrum[b]);
+    total += max / h;
+  }
+  return total;
+};
+
+// Retire d'un spectre les harmoniques d'une corde retenue. Au-delà de la fondamentale, chacune
+// n'est retirée qu'à hauteur de la moyenne de ses voisines : une harmonique partagée avec une
+// autre corde (octave) garde son excédent
+const cancelHarmonics = (spectrum: Float64Array, f0: number, binHz: number) => {
+  const peaks: { lo: number; hi: number; max: number }[] = [];
+  for (let h = 1; h <= HARMONICS; h++) {
+    const lo = Math.max(0, Math.floor((h * f0 * 0.97) / binHz)), hi = Math.ceil((h * f0 * 1.03) / binHz);
+    if (hi >= spectrum.length) break;
+    let max = 0;
+    for (let b = lo; b <= hi; b++) max = Math.max(max, spectrum[b]);
+    peaks.push({ lo, hi, max });
+  }
+  peaks.forEach((p, i) => {
+    const neighbours = [peaks[i - 1]?.max, peaks[i + 1]?.max].filter((v): v is number => v !== undefined);
+    const expected = i === 0 || neighbours.length === 0 ? p.max : Math.min(p.max, neighbours.reduce((s, v) => s + v, 0) / neighbours.length);
+    const ratio = p.max > 0 ? 1 - expected / p.max : 0;
+    for (let b = p.lo; b <= p.hi; b++) spectrum[b] *= ratio;
+  });
+};
+
+/**
+ * Cordes nouvelles à une attaque : spectre après l'attaque moins celui d'avant (les cordes qui
+ * résonnent déjà s'effacent), puis estimation itérative : corde la plus saillante, retrait de ses
+ * harmoniques, et ainsi de suite. Confiance : poids relatif de la corde et part du spectre expliquée.
+ */
+const detectChord = (samples: Float32Array, sampleRate: number, onset: number, nextOnset: number, strings: { stringId: string; frequency: number }[]): { stringId: string; frequency: number; confidence: number }[] => {
+  const start = Math.round((onset + NOTE_DELAY) * sampleRate);
+  const length = Math.max(256, Math.min(Math.round(NOTE_WINDOW * sampleRate), Math.round((nextOnset - onset - NOTE_DELAY) * sampleRate)));
+  const binHz = sampleRate / NOTE_FFT;
+  const after = magnitudeSpectrum(samples, start, length, NOTE_FFT);
+  const before = magnitudeSpectrum(samples, Math.round(onset * sampleRate) - length, length, NOTE_FFT);
+  const residual = after.map((m, i) => Math.max(0, m - before[i]));
+  const total = residual.reduce((s, v) => s + v, 0);
+  if (total === 0) return [];
+
+  const chosen: { stringId: string; frequency: number; weight: number }[] = [];
+  let reference = 0;
+  while (chosen.length < MAX_POLYPHONY) {
+    const best = strings
+      .filter(s => !chosen.some(c => c.stringId === s.stringId))
+      .map(s => ({ ...s, weight: salience(residual, s.frequency, binHz) }))
+      .sort((a, b) => b.weight - a.weight)[0];
+    if (!best || best.weight === 0 || (reference > 0 && best.weight < reference * POLY_RATIO)) break;
+    if (reference === 0) reference = best.weight;
+    chosen.push(best);
+    cancelHarmonics(residual, best.frequency, binHz);
+  }
+
+  // Part du spectre nouveau expliquée par les cordes retenues (le reste : bruit, voix, autre instrument)
+  const explained = 1 - residual.reduce((s, v) => s + v, 0) / total;
+  return chosen.map(c => ({ stringId: c.stringId, frequency: c.frequency, confidence: Math.min(1, Math.sqrt(c.weight / reference) * Math.min(1, explained * 2)) }));
+};
+
+/**
+ * Transcrit un enregistrement (morceau entier, plusieurs cordes à la fois) sur les 12 cordes de
+ * l'accordage : attaques par flux spectral, cordes de chaque attaque, tempo et premier temps.
+ */
+export const transcribeRecording = (input: Float32Array, inputRate: number, tuning: Tuning): { notes: DetectedNote[]; bpm: number; firstBeat: number } => {
+  const { samples, sampleRate } = downsample(input, inputRate);
+  const strings = stringFrequencies(tuning);
+  const { envelope, energy, hopSeconds, frameSeconds } = onsetStrength(samples, sampleRate);
+  const onsets = pickOnsets(envelope, energy, hopSeconds, frameSeconds);
+  // Tempo sur les attaques retenues, toutes de même poids : une corde plus sonore une note sur
+  // deux ne doit pas faire prendre le double de la période
+  const pulses = new Float64Array(envelope.length);
+  onsets.forEach(onset => { pulses[Math.min(pulses.length - 1, Math.round((onset - frameSeconds / 2) / hopSeconds))] = 1; });
+  const tempo = estimateTempo(pulses, hopSeconds, frameSeconds);
+
+  const notes: DetectedNote[] = [];
+  onsets.forEach((onset, i) => {
+    const next = onsets[i + 1] ?? samples.length / sampleRate;
+    detectChord(samples, sampleRate, onset, next, strings).forEach(c => notes.push({ time: onset, ...c }));
+  });
+
+  // Premier temps : le dernier avant la première note (silence initial ignoré, anacrouse gardée)
+  const period = 60 / tempo.bpm;
+  const firstBeat = onsets.length > 0 ? tempo.firstBeat + Math.floor((onsets[0] + ONSET_GAP - tempo.firstBeat) / period) * period : tempo.firstBeat;
+  return { notes, bpm: tempo.bpm, firstBeat };
+};
+
+// Travaux du worker de transcription (transcriptionWorker.ts)
+export type TranscriptionJob =
+  | { kind: 'recording'; samples: Float32Array; sampleRate: number; tuning: Tuning }
+  | { kind: 'notes'; samples: Float32Array; sampleRate: number; tuning: Tuning; minConfidence: number };
+
+// Analyse confiée au worker de transcription ; les échantillons sont transférés (le tableau passé devient inutilisable)
+const runInWorker = <T>(message: TranscriptionJob): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./transcriptionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ result?: T; error?: string }>) => {
+      worker.terminate();
+      if (e.data.result) resolve(e.data.result); else reject(new Error(e.data.error));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Échec du worker de transcription."));
+    };
+    worker.postMessage(message, [message.samples.buffer]);
+  });
+
+// transcribeRecording dans un Worker : l'interface reste réactive pendant l'analyse
+export const transcribeInWorker = (samples: Float32Array, sampleRate: number, tuning: Tuning) =>
+  runInWorker<ReturnType<typeof transcribeRecording>>({ kind: 'recording', samples, sampleRate, tuning });
+
+// detectNotes dans le même Worker : une longue prise au micro ne bloque pas l'interface
+export const detectNotesInWorker = (samples: Float32Array, sampleRate: number, tuning: Tuning, minConfidence: number) =>
+  runInWorker<DetectedNote[]>({ kind: 'notes', samples, sampleRate, tuning, minConfidence });
+
+// Secondes de l'enregistrement -> tick : le premier temps tombe à la fin du décompte
+export const beatGridTick = (bpm: number, firstBeat: number) => (seconds: number) =>
+  TICKS_COUNT_IN + ((seconds - firstBeat) * bpm * TICKS_QUARTER) / 60;
@@ -0,0 +1,57 @@
+import { AudioEngine } from './audio';
+import { parseTablature } from './parser';
+import { readWav, detectNotes } from './transcription';
+import { BASE_TUNING, HEADER_SILENCE, STRING_CONFIGS } from '../constants';
+import { TICKS_QUARTER } from '../types';
+
+// --- CONTRÔLE DE LA TRANSCRIPTION (développement) ---
+
+const CHECK_BPM = 100;
+const CHECK_TOLERANCE = 0.06; // s ; couvre le délai d'encodage des samples mp3 (~25 ms)
+
+// Cordes éloignées, voisines et une corde rejouée pendant qu'elle résonne encore
+const CHECK_CODE = HEADER_SILENCE + `+   1D
+♪   3G
+♪   6G
+♪   2D
+♪   4G
+♪   1G
+♪   5D
+♪   5D
++   3D
+♪   6D
+♪   2G
++   4D
+`;
+
+/**
+ * Rend CHECK_CODE avec exportWav (vrais samples, accordage de base, x1) dans un moteur à part,
+ * relit le fichier avec readWav et le passe à detectNotes : chaque note doit être retrouvée sur
+ * sa corde à CHECK_TOLERANCE près. En développement : `await ngonileleCheckTranscription()`.
+ */
+export const checkTranscription = async (): Promise<{ ok: boolean; rows: { expected: string; found: string; at: string; delta: string }[] }> => {
+  const expected = parseTablature(CHECK_CODE).notes.filter(n => STRING_CONFIGS.some(s => s.stringId === n.stringId));
+  const engine = new AudioEngine();
+  engine.init();
+  try {
+    engine.setTuning(BASE_TUNING);
+    engine.setBpm(CHECK_BPM);
+    engine.setNotes(expected);
+    const wav = await engine.exportWav({ includeMetronome: false, countIn: false });
+    if (!wav) throw new Error("Rendu WAV impossible.");
+
+    const { samples, sampleRate } = readWav(await wav.arrayBuffer());
+    const detected = detectNotes(samples, sampleRate, BASE_TUNING);
+    const rows = expected.map((note, i) => {
+      const time = (note.tick * 60) / (CHECK_BPM * TICKS_QUARTER);
+      const found = detected[i];
+      return { expected: note.stringId, found: found?.stringId ?? '—', at: `${time.toFixed(3)} s`, delta: found ? `${Math.round((found.time - time) * 1000)} ms` : '—', ok: !!found && found.stringId === note.stringId && Math.abs(found.time - time) <= CHECK_TOLERANCE };
+    });
+    const ok = detected.length === expected.length && rows.every(r => r.ok);
+    console.table(rows);
+    console.log(ok ? "Transcription : contrôle réussi." : `Transcription : contrôle échoué (${detected.length} notes détectées pour ${expected.length}).`);
+    return { ok, rows: rows.map(({ ok: _, ...row }) => row) };
+  } finally {
+    await engine.ctx?.close();
+  }
+};
@@ -0,0 +1,15 @@
+import { detectNotes, transcribeRecording, TranscriptionJob } from './transcription';
+
+// Analyse d'un enregistrement hors du fil de l'interface (plusieurs secondes pour un morceau entier)
+self.onmessage = (e: MessageEvent<TranscriptionJob>) => {
+  const job = e.data;
+  try {
+    self.postMessage({
+      result: job.kind === 'notes'
+        ? detectNotes(job.samples, job.sampleRate, job.tuning, job.minConfidence)
+        : transcribeRecording(job.samples, job.sampleRate, job.tuning)
+    });
+  } catch (err) {
+    self.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};